@@ -0,0 +1,185 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'util';
+import { buildChatMessages, buildContext, NOT_FOUND_REPLY, retrieveForMessage } from '../server/chat.ts';
+import { parseChunkingConfig } from '../server/chunker.ts';
+import { initDB, pool, runInWorkspace } from '../server/db.ts';
+import { createDocument, indexDocument } from '../server/indexer.ts';
+import { createProvider } from '../server/providers/index.ts';
+import { parseRetrievalOptions, type RetrievedChunk } from '../server/retrieval.ts';
+import { parseRewriteOptions } from '../server/rewriter.ts';
+import { startStubOllama } from './stub-ollama.ts';
+
+// Retrieval and answer quality on a fixture PDF with golden questions. The PDF is indexed and
+// every question answered through the same code as /api/upload and /api/chat, against the
+// offline Ollama stub unless --ollama-url is given. Needs the app's Postgres database; the
+// fixture document is indexed in a workspace of its own, deleted again afterwards.
+//
+//   npm run eval -- [--golden eval/fixtures/manual.golden.json] [--top-k 3] [--mode hybrid]
+//                   [--min-recall 0.8] [--min-mrr 0.6] [--min-answer 0.7]
+//
+// With a --min-* threshold the command exits with status 1 when the metric falls below it.
+
+type GoldenQuestion = {
+  question: string;
+  // Pages the answer is on; a retrieved chunk is a hit when it covers any of them
+  expectedPages: number[];
+  // Accepted answers; the reply matches when it contains any of them
+  expectedAnswers?: string[];
+};
+
+type GoldenSet = {
+  // PDF path relative to the golden file
+  pdf: string;
+  // Chunking settings as sent to /api/upload
+  chunking?: Record<string, unknown>;
+  questions: GoldenQuestion[];
+};
+
+type QuestionResult = {
+  question: string;
+  retrievedPages: string[];
+  // 1-based rank of the first relevant chunk, null when none was retrieved
+  rank: number | null;
+  answerMatch: boolean | null;
+  reply: string;
+};
+
+const { values: args } = parseArgs({
+  options: {
+    golden: { type: 'string', default: 'eval/fixtures/manual.golden.json' },
+    'ollama-url': { type: 'string' },
+    'embedding-model': { type: 'string' },
+    'chat-model': { type: 'string' },
+    'top-k': { type: 'string', default: '3' },
+    mode: { type: 'string', default: 'hybrid' },
+    'min-score': { type: 'string' },
+    'min-recall': { type: 'string' },
+    'min-mrr': { type: 'string' },
+    'min-answer': { type: 'string' },
+    verbose: { type: 'boolean', default: false },
+  },
+});
+
+// Helper: Parse the golden file, failing early on malformed entries
+async function loadGoldenSet(file: string): Promise<GoldenSet> {
+  const golden = JSON.parse(await readFile(file, 'utf8'));
+  if (typeof golden.pdf !== 'string' || !Array.isArray(golden.questions) || golden.questions.length === 0) {
+    throw new Error(`${file} must have a "pdf" path and a non-empty "questions" array`);
+  }
+  golden.questions.forEach((q: any, i: number) => {
+    if (typeof q.question !== 'string' || !Array.isArray(q.expectedPages) || q.expectedPages.length === 0) {
+      throw new Error(`Question ${i + 1} in ${file} needs a "question" and a non-empty "expectedPages" array`);
+    }
+  });
+  return golden;
+}
+
+// Helper: Lowercase without accents and runs of whitespace, for lenient answer matching
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function rankOfFirstHit(chunks: RetrievedChunk[], expectedPages: number[]): number | null {
+  const index = chunks.findIndex(chunk => expectedPages.some(page => page >= chunk.pageNum && page <= chunk.endPageNum));
+  return index === -1 ? null : index + 1;
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+async function main() {
+  const goldenFile = path.resolve(args.golden!);
+  const golden = await loadGoldenSet(goldenFile);
+  const chunking = parseChunkingConfig(golden.chunking ?? {});
+  const retrieval = parseRetrievalOptions({ retrievalMode: args.mode, topK: args['top-k'], minScore: args['min-score'] });
+  // Questions are asked without history, so rewriting only runs when variants are configured
+  const rewriting = parseRewriteOptions({});
+
+  const stub = args['ollama-url'] ? null : await startStubOllama();
+  const ollamaUrl = args['ollama-url'] ?? stub!.url;
+  const embeddingModel = args['embedding-model'] ?? (stub ? 'stub-embed' : null);
+  const chatModel = args['chat-model'] ?? (stub ? 'stub-chat' : null);
+  if (!embeddingModel || !chatModel) {
+    throw new Error('--embedding-model and --chat-model are required with --ollama-url');
+  }
+  const provider = createProvider({ provider: 'ollama', baseUrl: ollamaUrl });
+
+  let workspaceId: number | null = null;
+  try {
+    await initDB();
+    const { rows: [workspace] } = await runInWorkspace('*', () => pool.query(`INSERT INTO workspaces (name) VALUES ('[eval]') RETURNING id`));
+    workspaceId = workspace.id;
+
+    await runInWorkspace(workspace.id, async () => {
+      const pdfPath = path.resolve(path.dirname(goldenFile), golden.pdf);
+      const document = await createDocument(`[eval] ${path.basename(pdfPath)}`, await readFile(pdfPath), chunking, { provider, embeddingModel });
+      const { indexed, pageCount } = await indexDocument(document.id, provider);
+      console.log(`Indexed ${path.basename(pdfPath)}: ${pageCount} pages, ${indexed} chunks (${ollamaUrl}, ${embeddingModel}, ${chatModel})\n`);
+
+      const filter = { documentIds: [document.id], sections: [], pageFrom: null, pageTo: null };
+      const results: QuestionResult[] = [];
+      for (const q of golden.questions) {
+        const { chunks: retrieved } = await retrieveForMessage({
+          provider, chatModel, embeddingModel, message: q.question, history: [], filter, retrieval, rewriting,
+        });
+
+        let reply = NOT_FOUND_REPLY;
+        if (retrieved.length > 0) {
+          reply = '';
+          for await (const token of provider.chatStream(buildChatMessages(buildContext(retrieved), [], q.question), chatModel)) {
+            reply += token;
+          }
+        }
+
+        const expectedAnswers = q.expectedAnswers ?? [];
+        results.push({
+          question: q.question,
+          retrievedPages: retrieved.map(c => c.endPageNum !== c.pageNum ? `${c.pageNum}-${c.endPageNum}` : `${c.pageNum}`),
+          rank: rankOfFirstHit(retrieved, q.expectedPages),
+          answerMatch: expectedAnswers.length > 0 ? expectedAnswers.some(a => normalize(reply).includes(normalize(a))) : null,
+          reply,
+        });
+      }
+
+      for (const [i, result] of results.entries()) {
+        const hit = result.rank !== null ? `hit@${result.rank}` : 'miss';
+        const answerLabel = result.answerMatch === null ? '' : result.answerMatch ? '  answer ok' : '  answer WRONG';
+        console.log(`${String(i + 1).padStart(2)}. [${hit}] pages ${result.retrievedPages.join(', ') || '-'}${answerLabel}  ${result.question}`);
+        if (args.verbose || result.answerMatch === false) console.log(`    ${result.reply.replace(/\s+/g, ' ').trim()}`);
+      }
+
+      const recall = results.filter(r => r.rank !== null).length / results.length;
+      const mrr = results.reduce((sum, r) => sum + (r.rank !== null ? 1 / r.rank : 0), 0) / results.length;
+      const judged = results.filter(r => r.answerMatch !== null);
+      const answerMatch = judged.length > 0 ? judged.filter(r => r.answerMatch).length / judged.length : null;
+
+      console.log(`\nrecall@${retrieval.topK}: ${formatPercent(recall)}`);
+      console.log(`MRR: ${mrr.toFixed(3)}`);
+      console.log(`answer match: ${answerMatch === null ? 'n/a' : formatPercent(answerMatch)}`);
+
+      const failures: string[] = [];
+      const check = (name: string, value: number | null, threshold: string | undefined) => {
+        if (threshold !== undefined && (value ?? 0) < Number(threshold)) failures.push(`${name} below ${threshold}`);
+      };
+      check('recall', recall, args['min-recall']);
+      check('MRR', mrr, args['min-mrr']);
+      check('answer match', answerMatch, args['min-answer']);
+      if (failures.length > 0) {
+        console.error(`\nFAILED: ${failures.join(', ')}`);
+        process.exitCode = 1;
+      }
+    });
+  } finally {
+    // Deleting the workspace deletes the fixture document with it
+    if (workspaceId !== null) await runInWorkspace('*', () => pool.query('DELETE FROM workspaces WHERE id = $1', [workspaceId])).catch(() => {});
+    await pool.end();
+    await stub?.close();
+  }
+}
+
+main().catch(error => {
+  console.error('Evaluation failed:', error.message || error);
+  process.exitCode = 1;
+});
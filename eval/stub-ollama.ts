@@ -0,0 +1,121 @@
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+
+// A stand-in for the Ollama HTTP API, so the evaluation runs offline and gives the same numbers
+// on every machine. Embeddings are hashed bags of words; chat answers are extractive, picking the
+// context sentence that shares the most words with the question.
+
+const EMBEDDING_DIM = 256;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'has', 'have', 'how', 'i', 'in', 'is', 'it',
+  'its', 'of', 'on', 'or', 'should', 'the', 'this', 'to', 'what', 'when', 'where', 'which', 'who', 'why', 'with', 'you',
+  'o', 'os', 'as', 'de', 'da', 'do', 'das', 'dos', 'e', 'em', 'um', 'uma', 'que', 'qual', 'quais', 'como', 'para', 'por',
+]);
+
+// Helper: Lowercased content words without accents, with a crude plural/verb -s stemming
+function words(text: string): string[] {
+  return (text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(word => !STOP_WORDS.has(word))
+    .map(word => word.length > 3 ? word.replace(/s$/, '') : word);
+}
+
+// Helper: FNV-1a hash of a word
+function hash(word: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < word.length; i++) {
+    h ^= word.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// Helper: L2-normalized hashed bag of words; texts without words still get a usable vector
+function embed(text: string): number[] {
+  const vector = new Array(EMBEDDING_DIM).fill(0);
+  for (const word of words(text)) vector[hash(word) % EMBEDDING_DIM] += 1;
+  const norm = Math.hypot(...vector);
+  if (norm === 0) {
+    vector[0] = 1;
+    return vector;
+  }
+  return vector.map(value => value / norm);
+}
+
+// Helper: The context sentence sharing the most words with the question, cited by page
+function answer(systemPrompt: string, question: string): string {
+  const context = systemPrompt.split('\n\nContext:\n')[1];
+  if (!context?.trim()) return 'I cannot find the answer in the provided document.';
+
+  const asked = new Set(words(question));
+  let best = { score: 0, sentence: '', page: '' };
+  for (const block of context.split('\n\n---\n\n')) {
+    const [label, ...lines] = block.split('\n');
+    const page = label.match(/Páginas? (\d+)/)?.[1] ?? '';
+    for (const sentence of lines.join('\n').split(/(?<=[.!?])\s+|\n+/)) {
+      const score = new Set(words(sentence).filter(word => asked.has(word))).size;
+      if (score > best.score) best = { score, sentence: sentence.trim(), page };
+    }
+  }
+  if (!best.sentence) return 'I cannot find the answer in the provided document.';
+  return best.page ? `Na página ${best.page}: ${best.sentence}` : best.sentence;
+}
+
+// Helper: Reply to prompts other than the answer prompt. The rewriter gets the question back
+// unchanged, anything else (reranking, summaries) an empty answer.
+function reply(messages: { role: string, content: string }[]): string {
+  const system = messages.find(m => m.role === 'system')?.content ?? '';
+  const question = [...messages].reverse().find(m => m.role === 'user')?.content ?? '';
+  if (system.includes('\n\nContext:\n')) return answer(system, question);
+  const latest = question.match(/^Latest question: (.*)$/m);
+  return latest ? latest[1] : '';
+}
+
+function createStubApp() {
+  const app = express();
+  app.use(express.json({ limit: '50mb' }));
+
+  app.get('/api/tags', (req, res) => {
+    res.json({ models: [{ name: 'stub-embed', model: 'stub-embed' }, { name: 'stub-chat', model: 'stub-chat' }] });
+  });
+
+  app.post('/api/embed', (req, res) => {
+    const input: string[] = Array.isArray(req.body.input) ? req.body.input : [req.body.input ?? ''];
+    res.json({ model: req.body.model, embeddings: input.map(embed) });
+  });
+
+  app.post('/api/embeddings', (req, res) => {
+    res.json({ embedding: embed(req.body.prompt ?? '') });
+  });
+
+  app.post('/api/chat', (req, res) => {
+    const content = reply(req.body.messages ?? []);
+    const message = { role: 'assistant', content };
+    if (req.body.stream === false) {
+      return res.json({ model: req.body.model, message, done: true });
+    }
+    // Stream word by word, like the real server streams tokens
+    res.setHeader('Content-Type', 'application/x-ndjson');
+    for (const token of content.match(/\S+\s*/g) ?? []) {
+      res.write(JSON.stringify({ model: req.body.model, message: { role: 'assistant', content: token }, done: false }) + '\n');
+    }
+    res.end(JSON.stringify({ model: req.body.model, message: { role: 'assistant', content: '' }, done: true }) + '\n');
+  });
+
+  return app;
+}
+
+// Start the stub on a free local port
+export function startStubOllama(): Promise<{ url: string, close: () => Promise<void> }> {
+  return new Promise((resolve, reject) => {
+    const server: Server = createStubApp().listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        close: () => new Promise(done => server.close(() => done())),
+      });
+    });
+    server.on('error', reject);
+  });
+}
@@ -0,0 +1,237 @@
+import { pool } from './db.ts';
+import { getPageText } from './indexer.ts';
+import type { ChatMessage, ModelProvider, ToolCall, ToolDefinition, ToolMessage } from './providers/index.ts';
+import { formatContextLabel, getNeighborChunks, retrieveContext, toSource, type RetrievalOptions, type RetrievedChunk, type SearchFilter } from './retrieval.ts';
+
+// Agent mode of /api/chat: instead of answering from one retrieval, the model looks things up
+// with tools (search, read a page, list sections, read around a passage) until it can answer or
+// runs out of steps. Every tool call and result is reported as it happens.
+
+export type AgentRequest = {
+  provider: ModelProvider;
+  chatModel: string;
+  embeddingModel: string;
+  message: string;
+  // Earlier turns of the conversation, oldest first
+  history: ChatMessage[];
+  filter: SearchFilter;
+  retrieval: RetrievalOptions;
+  maxSteps: number;
+  signal?: AbortSignal;
+};
+
+type Source = ReturnType<typeof toSource>;
+
+export type AgentEvent =
+  | { status: 'tool_call', step: number, tool: string, arguments: Record<string, unknown> }
+  | { status: 'tool_result', step: number, tool: string, summary: string, sources: Source[] }
+  // Final answer with every passage the tools returned
+  | { status: 'answer', reply: string, sources: Source[], steps: number };
+
+export const DEFAULT_AGENT_STEPS = 6;
+const MAX_AGENT_STEPS = 12;
+const DEFAULT_SEARCH_K = 4;
+const MAX_SEARCH_K = 10;
+// Characters of a page returned by get_page, to keep the context bounded
+const MAX_PAGE_CHARS = 6000;
+
+const TOOLS: ToolDefinition[] = [
+  {
+    name: 'search_document',
+    description: 'Search the documents for passages relevant to a query. Returns passages with their chunk id, document, page and section.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'What to look for' },
+        k: { type: 'integer', description: `Number of passages to return, 1 to ${MAX_SEARCH_K} (default ${DEFAULT_SEARCH_K})` },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'get_page',
+    description: 'Read the full text of one page.',
+    parameters: {
+      type: 'object',
+      properties: {
+        n: { type: 'integer', description: 'Page number' },
+        document_id: { type: 'integer', description: 'Document the page belongs to; required when several documents are available' },
+      },
+      required: ['n'],
+    },
+  },
+  {
+    name: 'list_sections',
+    description: 'List the sections of the documents with the page each one starts on.',
+    parameters: { type: 'object', properties: {} },
+  },
+  {
+    name: 'get_neighbors',
+    description: 'Read the passages just before and after a passage, given its chunk id from search_document.',
+    parameters: {
+      type: 'object',
+      properties: {
+        chunk_id: { type: 'integer', description: 'Chunk id of the passage' },
+      },
+      required: ['chunk_id'],
+    },
+  },
+];
+
+// Helper: Parse the step limit of an agent request
+export function parseAgentSteps(value: unknown): number {
+  if (value === undefined || value === null) return DEFAULT_AGENT_STEPS;
+  const steps = Number(value);
+  if (!Number.isInteger(steps) || steps < 1 || steps > MAX_AGENT_STEPS) {
+    throw new Error(`maxSteps must be an integer between 1 and ${MAX_AGENT_STEPS}`);
+  }
+  return steps;
+}
+
+type ToolContext = {
+  request: AgentRequest;
+  documents: { id: number, filename: string, pageCount: number | null, outline: any[] | null }[];
+};
+
+type ToolResult = { content: string, summary: string, chunks: RetrievedChunk[] };
+
+// Helper: Passages as the model reads them: chunk id, label and text
+function formatChunks(chunks: RetrievedChunk[]): string {
+  return chunks.map(chunk => `[chunk ${chunk.id}] ${formatContextLabel(chunk)}\n${chunk.text}`).join('\n\n---\n\n');
+}
+
+function pageList(chunks: RetrievedChunk[]): string {
+  return [...new Set(chunks.map(chunk => `p. ${chunk.pageNum}`))].join(', ');
+}
+
+async function searchDocument(context: ToolContext, args: Record<string, unknown>): Promise<ToolResult> {
+  const { provider, chatModel, embeddingModel, filter, retrieval, signal } = context.request;
+  const query = typeof args.query === 'string' ? args.query.trim() : '';
+  if (!query) return { content: 'Error: query is required.', summary: 'no query given', chunks: [] };
+  const k = Math.min(Math.max(Number.isInteger(args.k) ? args.k as number : DEFAULT_SEARCH_K, 1), MAX_SEARCH_K);
+
+  const embeddings = retrieval.mode !== 'keyword' ? await provider.embed([query], embeddingModel) : null;
+  const chunks = await retrieveContext(
+    [query], embeddings, { provider: provider.name, model: embeddingModel }, filter, { ...retrieval, topK: k }, { provider, chatModel, signal }
+  );
+  if (chunks.length === 0) return { content: 'No relevant passages found.', summary: 'nothing found', chunks };
+  return { content: formatChunks(chunks), summary: `${chunks.length} passages (${pageList(chunks)})`, chunks };
+}
+
+async function getPage(context: ToolContext, args: Record<string, unknown>): Promise<ToolResult> {
+  const n = Number(args.n);
+  const documentId = args.document_id !== undefined && args.document_id !== null ? Number(args.document_id) : null;
+  const document = documentId !== null
+    ? context.documents.find(d => d.id === documentId)
+    : context.documents.length === 1 ? context.documents[0] : undefined;
+  if (!document) {
+    const error = documentId !== null ? `document ${documentId} is not available` : 'document_id is required when several documents are available';
+    return { content: `Error: ${error}.`, summary: error, chunks: [] };
+  }
+  const text = Number.isInteger(n) ? await getPageText(document.id, n) : null;
+  if (text === null) return { content: `Error: ${document.filename} has no page ${args.n}.`, summary: `no page ${args.n}`, chunks: [] };
+  const content = text.length > MAX_PAGE_CHARS ? `${text.slice(0, MAX_PAGE_CHARS)}\n[… page truncated]` : text;
+  return { content: `[${document.filename} · Página ${n}]\n${content}`, summary: `${document.filename}, p. ${n}`, chunks: [] };
+}
+
+async function listSections(context: ToolContext): Promise<ToolResult> {
+  const lines: string[] = [];
+  let count = 0;
+  for (const document of context.documents) {
+    const outline = document.outline ?? [];
+    count += outline.length;
+    lines.push(`${document.filename} (document_id ${document.id}, ${document.pageCount ?? '?'} pages)`);
+    if (outline.length === 0) lines.push('  (no sections detected)');
+    for (const section of outline) lines.push(`${'  '.repeat(section.level)}${section.title} — p. ${section.page}`);
+  }
+  return { content: lines.join('\n'), summary: `${count} sections`, chunks: [] };
+}
+
+async function getNeighbors(context: ToolContext, args: Record<string, unknown>): Promise<ToolResult> {
+  const chunkId = Number(args.chunk_id);
+  const neighbors = Number.isInteger(chunkId) ? await getNeighborChunks(chunkId) : [];
+  // Chunk ids outside the searched documents are treated as unknown
+  const chunks = neighbors.filter(chunk => context.documents.some(d => d.id === chunk.documentId));
+  if (chunks.length === 0) return { content: `No passages found around chunk ${args.chunk_id}.`, summary: 'nothing found', chunks };
+  return { content: formatChunks(chunks), summary: `${chunks.length} neighboring passages (${pageList(chunks)})`, chunks };
+}
+
+// Helper: Run one tool call; bad arguments are reported to the model rather than thrown
+function runTool(context: ToolContext, call: ToolCall): Promise<ToolResult> {
+  switch (call.name) {
+    case 'search_document': return searchDocument(context, call.arguments);
+    case 'get_page': return getPage(context, call.arguments);
+    case 'list_sections': return listSections(context);
+    case 'get_neighbors': return getNeighbors(context, call.arguments);
+    default: return Promise.resolve({ content: `Error: unknown tool ${call.name}.`, summary: 'unknown tool', chunks: [] });
+  }
+}
+
+// Run the tool loop for a question. Each model turn that calls tools is one step; when the step
+// limit is reached the model answers with what it has gathered.
+export async function* runAgent(request: AgentRequest): AsyncGenerator<AgentEvent> {
+  const { provider, chatModel, message, history, filter, maxSteps, signal } = request;
+  if (!provider.chatWithTools) throw new Error(`Agent mode needs a provider with tool calling; ${provider.name} has none.`);
+
+  const { rows } = await pool.query(
+    `SELECT id, filename, page_count, outline FROM documents
+     WHERE $1::int[] IS NULL OR id = ANY($1::int[])
+     ORDER BY id`,
+    [filter.documentIds]
+  );
+  const context: ToolContext = {
+    request,
+    documents: rows.map(row => ({ id: row.id, filename: row.filename, pageCount: row.page_count, outline: row.outline })),
+  };
+
+  const documentList = context.documents.map(d => `- ${d.filename} (document_id ${d.id}, ${d.pageCount ?? '?'} pages)`).join('\n');
+  const systemPrompt = `You are a helpful assistant answering questions about PDF documents. Use the tools to look up what you need: search for passages, read whole pages, list the sections, or read around a passage. Questions that compare or combine information may need several lookups. Answer only from what the tools returned, always mentioning the page number where you found the information (e.g., "Na página X..."), and the document name when there are several. If the documents do not contain the answer, say so.\n\nDocuments:\n${documentList}`;
+  const messages: ToolMessage[] = [
+    { role: 'system', content: systemPrompt },
+    ...history,
+    { role: 'user', content: message },
+  ];
+
+  const sources = new Map<number, Source>();
+  for (let step = 1; step <= maxSteps; step++) {
+    const turn = await provider.chatWithTools(messages, TOOLS, chatModel, { signal });
+    if (turn.toolCalls.length === 0) {
+      yield { status: 'answer', reply: turn.content, sources: [...sources.values()], steps: step - 1 };
+      return;
+    }
+
+    messages.push({ role: 'assistant', content: turn.content, toolCalls: turn.toolCalls });
+    for (const call of turn.toolCalls) {
+      yield { status: 'tool_call', step, tool: call.name, arguments: call.arguments };
+      let result: ToolResult;
+      try {
+        result = await runTool(context, call);
+      } catch (error: any) {
+        if (error.name === 'AbortError') throw error;
+        result = { content: `Error: ${error.message}`, summary: `failed: ${error.message}`, chunks: [] };
+      }
+      const found = result.chunks.map(toSource);
+      for (const source of found) sources.set(source.chunkId, source);
+      yield { status: 'tool_result', step, tool: call.name, summary: result.summary, sources: found };
+      messages.push({ role: 'tool', toolName: call.name, content: result.content });
+    }
+  }
+
+  // Out of steps: answer without tools from what was gathered
+  messages.push({ role: 'user', content: 'The lookup limit was reached. Answer the question now with the information gathered so far.' });
+  const reply = await provider.chat(toChatMessages(messages), chatModel, { signal });
+  yield { status: 'answer', reply, sources: [...sources.values()], steps: maxSteps };
+}
+
+// Helper: The conversation as plain chat messages, with tool calls and results written out, for
+// the final turn without tools
+function toChatMessages(messages: ToolMessage[]): ChatMessage[] {
+  return messages.map((m): ChatMessage => {
+    if ('toolCalls' in m) {
+      const calls = m.toolCalls.map(call => `${call.name}(${JSON.stringify(call.arguments)})`).join(', ');
+      return { role: 'assistant', content: `${m.content ? `${m.content}\n` : ''}[Called ${calls}]` };
+    }
+    if ('toolName' in m) return { role: 'user', content: `[Result of ${m.toolName}]\n${m.content}` };
+    return m;
+  });
+}
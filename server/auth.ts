@@ -0,0 +1,203 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { pool } from './db.ts';
+import { ApiError } from './http.ts';
+
+// Accounts, sessions and API keys. Every account owns a workspace; a session token (web app) or
+// API key (scripts) identifies the caller and the workspace its requests act in. Tokens are
+// random strings shown once; only their SHA-256 is stored.
+
+export type AuthContext = {
+  userId: number;
+  email: string;
+  workspaceId: number;
+  workspaceName: string;
+  tokenId: number;
+  kind: 'session' | 'api_key';
+};
+
+export const SESSION_COOKIE = 'pdf_agent_session';
+export const SESSION_TTL_DAYS = 30;
+const MIN_PASSWORD_LENGTH = 8;
+// Advisory lock key that serializes sign-ups
+const REGISTER_LOCK = 4_210_001;
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// Helper: scrypt hash of a password, stored as "scrypt$<salt>$<hash>" in base64
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Checked when the email is unknown, so that a failed login takes as long whether or not the
+// account exists
+const DUMMY_HASH = hashPassword(randomBytes(16).toString('base64'));
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Helper: Store a new token and return it; the raw value cannot be recovered later
+async function issueToken(
+  userId: number,
+  workspaceId: number,
+  kind: AuthContext['kind'],
+  name: string | null,
+  expiresInDays: number | null
+): Promise<{ id: number, token: string }> {
+  const token = `${kind === 'api_key' ? 'pak' : 'pas'}_${randomBytes(32).toString('base64url')}`;
+  const { rows: [row] } = await pool.query(
+    `INSERT INTO auth_tokens (token_hash, kind, name, user_id, workspace_id, expires_at)
+     VALUES ($1, $2, $3, $4, $5, CASE WHEN $6::int IS NULL THEN NULL ELSE NOW() + make_interval(days => $6::int) END)
+     RETURNING id`,
+    [hashToken(token), kind, name, userId, workspaceId, expiresInDays]
+  );
+  return { id: row.id, token };
+}
+
+// Helper: Validate the credentials of a sign-up or sign-in request
+export function parseCredentials(body: any): { email: string, password: string } {
+  const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+  if (!/^[^\s@]+@[^\s@]+$/.test(email)) throw new ApiError(400, 'A valid email address is required');
+  if (typeof body.password !== 'string' || body.password.length < MIN_PASSWORD_LENGTH) {
+    throw new ApiError(400, `The password must have at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  return { email, password: body.password };
+}
+
+// The account and workspace a session was opened for
+async function sessionInfo(userId: number, workspaceId: number) {
+  const { rows: [row] } = await pool.query(
+    `SELECT u.id AS user_id, u.email, w.id AS workspace_id, w.name AS workspace_name
+     FROM users u, workspaces w WHERE u.id = $1 AND w.id = $2`,
+    [userId, workspaceId]
+  );
+  return {
+    user: { id: row.user_id, email: row.email },
+    workspace: { id: row.workspace_id, name: row.workspace_name },
+  };
+}
+
+// Create an account with its own workspace and sign it in. The first account adopts the
+// workspace holding the documents from before accounts existed; with signupOpen false, no account
+// beyond the first can be created.
+export async function register(email: string, password: string, { workspaceName, signupOpen = true }: { workspaceName?: string, signupOpen?: boolean } = {}) {
+  const passwordHash = await hashPassword(password);
+  const client = await pool.connect();
+  let userId: number;
+  let workspaceId: number;
+  try {
+    await client.query('BEGIN');
+    // Sign-ups run one at a time, so two concurrent first accounts cannot both see themselves as
+    // the first and adopt the default workspace
+    await client.query('SELECT pg_advisory_xact_lock($1)', [REGISTER_LOCK]);
+    const { rows: [{ count }] } = await client.query('SELECT COUNT(*) FROM users');
+    const isFirst = Number(count) === 0;
+    if (!isFirst && !signupOpen) throw new ApiError(403, 'Sign-up is disabled on this server');
+
+    const { rows: [user] } = await client.query(
+      `INSERT INTO users (email, password_hash) VALUES ($1, $2) ON CONFLICT (email) DO NOTHING RETURNING id`,
+      [email, passwordHash]
+    );
+    if (!user) throw new ApiError(409, 'An account with this email already exists');
+    userId = user.id;
+
+    const { rows: [unclaimed] } = isFirst
+      ? await client.query(`SELECT id FROM workspaces w WHERE NOT EXISTS (SELECT 1 FROM workspace_members m WHERE m.workspace_id = w.id) ORDER BY id LIMIT 1`)
+      : { rows: [] };
+    if (unclaimed) {
+      workspaceId = unclaimed.id;
+    } else {
+      const { rows: [workspace] } = await client.query(
+        'INSERT INTO workspaces (name) VALUES ($1) RETURNING id',
+        [workspaceName?.trim() || `${email.split('@')[0]}'s workspace`]
+      );
+      workspaceId = workspace.id;
+    }
+    await client.query(`INSERT INTO workspace_members (workspace_id, user_id, role) VALUES ($1, $2, 'owner')`, [workspaceId, userId]);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  const { token } = await issueToken(userId, workspaceId, 'session', null, SESSION_TTL_DAYS);
+  return { token, ...await sessionInfo(userId, workspaceId) };
+}
+
+// Sign in to the first workspace of an account
+export async function login(email: string, password: string) {
+  const { rows: [user] } = await pool.query(
+    `SELECT u.id, u.password_hash, (SELECT m.workspace_id FROM workspace_members m WHERE m.user_id = u.id ORDER BY m.workspace_id LIMIT 1) AS workspace_id
+     FROM users u WHERE u.email = $1`,
+    [email]
+  );
+  const valid = await verifyPassword(password, user?.password_hash ?? await DUMMY_HASH);
+  if (!user || !valid) throw new ApiError(401, 'Wrong email or password');
+  if (user.workspace_id === null) throw new ApiError(403, 'This account has no workspace');
+
+  const { token } = await issueToken(user.id, user.workspace_id, 'session', null, SESSION_TTL_DAYS);
+  return { token, ...await sessionInfo(user.id, user.workspace_id) };
+}
+
+// The caller behind a token, or null when it is unknown or expired
+export async function authenticate(token: string | null): Promise<AuthContext | null> {
+  if (!token) return null;
+  const { rows: [row] } = await pool.query(
+    `UPDATE auth_tokens t SET last_used_at = NOW()
+     FROM users u, workspaces w
+     WHERE t.token_hash = $1 AND (t.expires_at IS NULL OR t.expires_at > NOW())
+       AND u.id = t.user_id AND w.id = t.workspace_id
+     RETURNING t.id, t.kind, u.id AS user_id, u.email, w.id AS workspace_id, w.name AS workspace_name`,
+    [hashToken(token)]
+  );
+  if (!row) return null;
+  return {
+    userId: row.user_id,
+    email: row.email,
+    workspaceId: row.workspace_id,
+    workspaceName: row.workspace_name,
+    tokenId: row.id,
+    kind: row.kind,
+  };
+}
+
+export async function revokeToken(tokenId: number) {
+  await pool.query('DELETE FROM auth_tokens WHERE id = $1', [tokenId]);
+}
+
+export async function listApiKeys(auth: AuthContext) {
+  const { rows } = await pool.query(
+    `SELECT id, name, created_at, last_used_at FROM auth_tokens
+     WHERE kind = 'api_key' AND workspace_id = $1
+     ORDER BY id`,
+    [auth.workspaceId]
+  );
+  return rows.map(row => ({ id: row.id, name: row.name, createdAt: row.created_at, lastUsedAt: row.last_used_at }));
+}
+
+// API keys act in the workspace of the session that created them and do not expire
+export async function createApiKey(auth: AuthContext, name: string) {
+  const { id, token } = await issueToken(auth.userId, auth.workspaceId, 'api_key', name, null);
+  return { id, name, key: token };
+}
+
+export async function deleteApiKey(auth: AuthContext, id: number): Promise<boolean> {
+  const { rowCount } = await pool.query(
+    `DELETE FROM auth_tokens WHERE id = $1 AND kind = 'api_key' AND workspace_id = $2`,
+    [id, auth.workspaceId]
+  );
+  return (rowCount ?? 0) > 0;
+}
@@ -0,0 +1,112 @@
+import type { ChatMessage, ModelProvider } from './providers/index.ts';
+import { formatContextLabel, retrieveContext, type RetrievalOptions, type RetrievedChunk, type SearchFilter } from './retrieval.ts';
+import { rewriteQuery, type RewriteOptions, type RewrittenQuery } from './rewriter.ts';
+
+// The question-answering pipeline behind /api/chat, shared with the evaluation command so both
+// measure the same thing: rewrite the question, retrieve context for it, build the prompt.
+
+// Reply when no indexed chunk is relevant enough, also used as the model's fallback answer
+export const NOT_FOUND_REPLY = 'I cannot find the answer in the provided document.';
+
+export type AnswerRequest = {
+  provider: ModelProvider;
+  chatModel: string;
+  embeddingModel: string;
+  message: string;
+  // Earlier turns of the conversation, oldest first
+  history: ChatMessage[];
+  filter: SearchFilter;
+  retrieval: RetrievalOptions;
+  rewriting: RewriteOptions;
+  // Passage the user selected in the viewer, e.g. to ask for an explanation of it
+  selection?: TextSelection | null;
+  // Comparison question over the documents in scope: each document is searched on its own, so
+  // the context holds passages from all of them
+  compare?: boolean;
+  signal?: AbortSignal;
+};
+
+export type TextSelection = { text: string, documentId: number | null, pageNumber: number | null };
+
+const MAX_SELECTION_LENGTH = 4000;
+// Characters of the selection searched with, on top of the question
+const SELECTION_QUERY_LENGTH = 500;
+
+// Helper: Parse the selected passage of a chat request
+export function parseSelection(input: unknown): TextSelection | null {
+  if (input === undefined || input === null) return null;
+  if (typeof input !== 'object' || Array.isArray(input)) throw new Error('selection must be an object');
+  const { text, documentId, pageNumber } = input as Record<string, unknown>;
+  if (typeof text !== 'string' || !text.trim()) throw new Error('selection.text must be a non-empty string');
+  if (text.length > MAX_SELECTION_LENGTH) throw new Error(`selection.text must have at most ${MAX_SELECTION_LENGTH} characters`);
+  const optionalId = (value: unknown, name: string) => {
+    if (value === undefined || value === null) return null;
+    if (!Number.isInteger(value) || (value as number) < 1) throw new Error(`selection.${name} must be a positive integer`);
+    return value as number;
+  };
+  return { text: text.trim(), documentId: optionalId(documentId, 'documentId'), pageNumber: optionalId(pageNumber, 'pageNumber') };
+}
+
+// Turn a message into search queries and retrieve the chunks to answer it with.
+// No chunks means nothing in scope was relevant enough to answer from.
+export async function retrieveForMessage(request: AnswerRequest): Promise<{ rewritten: RewrittenQuery, chunks: RetrievedChunk[] }> {
+  const { provider, chatModel, embeddingModel, message, history, retrieval, signal } = request;
+
+  // Follow-ups are condensed into a standalone query; a failed rewrite falls back to the message as typed
+  let rewritten: RewrittenQuery = { original: message, query: message, variants: [] };
+  try {
+    rewritten = await rewriteQuery(provider, chatModel, message, history, request.rewriting, signal);
+  } catch (error: any) {
+    if (error.name === 'AbortError') throw error;
+    console.warn('Query rewriting failed, searching with the original message:', error.message);
+  }
+  const queries = [rewritten.query, ...rewritten.variants];
+  // A selected passage is searched for too, so the context covers what surrounds it
+  if (request.selection) queries.push(request.selection.text.replace(/\s+/g, ' ').slice(0, SELECTION_QUERY_LENGTH));
+
+  const queryEmbeddings = retrieval.mode !== 'keyword' ? await provider.embed(queries, embeddingModel) : null;
+  const embeddingSpace = { provider: provider.name, model: embeddingModel };
+  const rerank = { provider, chatModel, signal };
+  const { documentIds } = request.filter;
+  if (request.compare && documentIds && documentIds.length > 1) {
+    // One search per document with the full topK, so no document crowds out the others
+    const chunks: RetrievedChunk[] = [];
+    for (const documentId of documentIds) {
+      const filter = { ...request.filter, documentIds: [documentId] };
+      chunks.push(...await retrieveContext(queries, queryEmbeddings, embeddingSpace, filter, retrieval, rerank));
+    }
+    return { rewritten, chunks };
+  }
+  const chunks = await retrieveContext(queries, queryEmbeddings, embeddingSpace, request.filter, retrieval, rerank);
+  return { rewritten, chunks };
+}
+
+// Helper: Context block of the system prompt, one labelled chunk after another
+export function buildContext(chunks: RetrievedChunk[]): string {
+  return chunks.map(c => `${formatContextLabel(c)}\n${c.text}`).join('\n\n---\n\n');
+}
+
+// Helper: The user turn, quoting the selected passage before the question when there is one
+function userTurn(message: string, selection?: TextSelection | null): string {
+  if (!selection) return message;
+  const page = selection.pageNumber ? ` (page ${selection.pageNumber})` : '';
+  return `Selected passage${page}:\n"""\n${selection.text}\n"""\n\n${message}`;
+}
+
+// Added to the system prompt of comparison questions
+const COMPARE_INSTRUCTIONS = `The question compares the documents in the context: answer for each document in turn, then point out where they agree and where they differ. Label every statement with its document and page, e.g. "(contrato-v2.pdf, p. 4)". If a document does not address the question, say so for that document.`;
+
+export function buildChatMessages(
+  context: string,
+  history: ChatMessage[],
+  message: string,
+  { selection, compare }: { selection?: TextSelection | null, compare?: boolean } = {}
+): ChatMessage[] {
+  const instructions = `You are a helpful assistant. Use the following context from one or more PDF documents to answer the user's question. Always mention the page number where you found the information (e.g., "Na página X..."), the section when it is given, and the document name when the context spans several documents. If the answer is not in the context, say "${NOT_FOUND_REPLY}"`;
+  const systemPrompt = `${instructions}${compare ? ` ${COMPARE_INSTRUCTIONS}` : ''}\n\nContext:\n${context}`;
+  return [
+    { role: 'system', content: systemPrompt },
+    ...history,
+    { role: 'user', content: userTurn(message, selection) },
+  ];
+}
@@ -0,0 +1,286 @@
+// Structure-aware chunking of extracted PDF text.
+//
+// Pages are segmented into sentences or paragraphs, which are packed greedily into chunks of
+// roughly `chunkSize` characters or estimated tokens. Every chunk records the page and character
+// offset (within that page's text) where it starts and ends, so citations can point back to the
+// source even when a chunk runs across a page break.
+
+export const CHUNK_STRATEGIES = ['fixed', 'sentence', 'paragraph'] as const;
+export type ChunkStrategy = typeof CHUNK_STRATEGIES[number];
+
+export const CHUNK_UNITS = ['chars', 'tokens'] as const;
+export type ChunkUnit = typeof CHUNK_UNITS[number];
+
+export type ChunkingConfig = {
+  strategy: ChunkStrategy;
+  unit: ChunkUnit;
+  chunkSize: number;
+  overlap: number;
+  // Merge consecutive pages so paragraphs continuing onto the next page stay together
+  crossPages: boolean;
+};
+
+export const DEFAULT_CHUNKING_CONFIG: ChunkingConfig = {
+  strategy: 'sentence',
+  unit: 'chars',
+  chunkSize: 1000,
+  overlap: 200,
+  crossPages: true,
+};
+
+export type PageText = { num: number, text: string };
+
+// A table detected on a page, as rows of cell texts; the first row is taken as the header
+export type PageTable = { page: number, rows: string[][] };
+
+export type ChunkType = 'text' | 'table';
+
+export type TextChunk = {
+  type: ChunkType;
+  text: string;
+  startPage: number;
+  // Offsets are null for tables, which have no single position in the page text
+  startOffset: number | null;
+  endPage: number;
+  // Exclusive offset within the end page's text
+  endOffset: number | null;
+  // Heading path the chunk falls under, filled in from the document outline (see sections.ts)
+  sectionPath?: string | null;
+};
+
+type Span = { start: number, end: number };
+
+type JoinedText = {
+  text: string;
+  pages: { num: number, start: number, end: number }[];
+};
+
+const SENTENCE_BREAK = /(?<=[.!?…]["')\]»]?)\s+|\n\s*\n/g;
+const PARAGRAPH_BREAK = /\n\s*\n/g;
+const WORD_BREAK = /\s+/g;
+
+// Rough token estimate: about 4 characters per token for common tokenizers on Latin-script text
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function measure(text: string, unit: ChunkUnit): number {
+  return unit === 'tokens' ? estimateTokens(text) : text.length;
+}
+
+// Validate chunking settings from a request; missing fields fall back to the defaults
+export function parseChunkingConfig(input: Record<string, unknown>): ChunkingConfig {
+  const config = { ...DEFAULT_CHUNKING_CONFIG };
+
+  if (input.strategy !== undefined && input.strategy !== '') {
+    if (!CHUNK_STRATEGIES.includes(input.strategy as ChunkStrategy)) {
+      throw new Error(`Chunk strategy must be one of: ${CHUNK_STRATEGIES.join(', ')}`);
+    }
+    config.strategy = input.strategy as ChunkStrategy;
+  }
+  if (input.unit !== undefined && input.unit !== '') {
+    if (!CHUNK_UNITS.includes(input.unit as ChunkUnit)) {
+      throw new Error(`Chunk unit must be one of: ${CHUNK_UNITS.join(', ')}`);
+    }
+    config.unit = input.unit as ChunkUnit;
+  }
+  if (input.chunkSize !== undefined && input.chunkSize !== '') {
+    config.chunkSize = Number(input.chunkSize);
+  }
+  if (input.overlap !== undefined && input.overlap !== '') {
+    config.overlap = Number(input.overlap);
+  }
+  if (input.crossPages !== undefined && input.crossPages !== '') {
+    config.crossPages = input.crossPages === true || input.crossPages === 'true';
+  }
+
+  if (!Number.isInteger(config.chunkSize) || config.chunkSize < 1 || config.chunkSize > 20000) {
+    throw new Error('Chunk size must be an integer between 1 and 20000');
+  }
+  if (!Number.isInteger(config.overlap) || config.overlap < 0 || config.overlap >= config.chunkSize) {
+    throw new Error('Chunk overlap must be a non-negative integer smaller than the chunk size');
+  }
+  return config;
+}
+
+// Concatenate pages, remembering where each one starts and ends in the joined text
+function joinPages(pages: PageText[]): JoinedText {
+  let text = '';
+  const bounds: JoinedText['pages'] = [];
+  pages.forEach((page, i) => {
+    if (i > 0) {
+      // A page that doesn't end a sentence most likely continues on the next one
+      text += /[.!?:…]["')\]»]?\s*$/.test(text) ? '\n\n' : ' ';
+    }
+    const start = text.length;
+    text += page.text;
+    bounds.push({ num: page.num, start, end: text.length });
+  });
+  return { text, pages: bounds };
+}
+
+// Map an offset in the joined text back to a page and an offset within that page
+function locate(joined: JoinedText, pos: number, isEnd: boolean) {
+  let page = joined.pages[0];
+  for (const candidate of joined.pages) {
+    if (isEnd ? candidate.start < pos : candidate.start <= pos) page = candidate;
+    else break;
+  }
+  return { page: page.num, offset: Math.max(0, Math.min(pos, page.end) - page.start) };
+}
+
+// Shrink a span so it neither starts nor ends with whitespace; null if nothing is left
+function trimSpan(text: string, span: Span): Span | null {
+  let { start, end } = span;
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return start < end ? { start, end } : null;
+}
+
+// Split a span at every match of a separator pattern
+function splitSpan(text: string, span: Span, separator: RegExp): Span[] {
+  const pieces: Span[] = [];
+  const pattern = new RegExp(separator.source, 'g');
+  const slice = text.slice(span.start, span.end);
+  let last = 0;
+  for (const match of slice.matchAll(pattern)) {
+    const piece = trimSpan(text, { start: span.start + last, end: span.start + match.index! });
+    if (piece) pieces.push(piece);
+    last = match.index! + match[0].length;
+  }
+  const tail = trimSpan(text, { start: span.start + last, end: span.end });
+  if (tail) pieces.push(tail);
+  return pieces;
+}
+
+// Hard-split a span into consecutive slices of at most `size` units
+function sliceSpan(text: string, span: Span, config: ChunkingConfig, overlap: number): Span[] {
+  const charsPerUnit = config.unit === 'tokens' ? 4 : 1;
+  const size = config.chunkSize * charsPerUnit;
+  const step = size - overlap * charsPerUnit;
+  const slices: Span[] = [];
+  for (let i = span.start; i < span.end; i += step) {
+    const slice = trimSpan(text, { start: i, end: Math.min(i + size, span.end) });
+    if (slice) slices.push(slice);
+    if (i + size >= span.end) break;
+  }
+  return slices;
+}
+
+// Break a span into segments no larger than the chunk size, preferring the coarsest separator that works
+function segment(text: string, span: Span, separators: RegExp[], config: ChunkingConfig): Span[] {
+  if (measure(text.slice(span.start, span.end), config.unit) <= config.chunkSize) return [span];
+  const [separator, ...finer] = separators;
+  if (!separator) return sliceSpan(text, span, config, 0);
+  return splitSpan(text, span, separator).flatMap(piece => segment(text, piece, finer, config));
+}
+
+// Greedily pack segments into chunks, repeating trailing segments up to `overlap` units
+function pack(text: string, segments: Span[], config: ChunkingConfig): Span[] {
+  const sizes = segments.map(seg => measure(text.slice(seg.start, seg.end), config.unit));
+  const chunks: Span[] = [];
+  let current: number[] = [];
+  let currentSize = 0;
+
+  segments.forEach((_, i) => {
+    if (current.length > 0 && currentSize + sizes[i] > config.chunkSize) {
+      chunks.push({ start: segments[current[0]].start, end: segments[current[current.length - 1]].end });
+
+      const carried: number[] = [];
+      let carriedSize = 0;
+      for (let j = current.length - 1; j >= 0; j--) {
+        if (carriedSize + sizes[current[j]] > config.overlap) break;
+        carried.unshift(current[j]);
+        carriedSize += sizes[current[j]];
+      }
+      while (carried.length > 0 && carriedSize + sizes[i] > config.chunkSize) {
+        carriedSize -= sizes[carried.shift()!];
+      }
+      current = carried;
+      currentSize = carriedSize;
+    }
+    current.push(i);
+    currentSize += sizes[i];
+  });
+
+  if (current.length > 0) {
+    chunks.push({ start: segments[current[0]].start, end: segments[current[current.length - 1]].end });
+  }
+  return chunks;
+}
+
+function chunkJoined(joined: JoinedText, config: ChunkingConfig): TextChunk[] {
+  const whole = trimSpan(joined.text, { start: 0, end: joined.text.length });
+  if (!whole) return [];
+
+  let spans: Span[];
+  if (config.strategy === 'fixed') {
+    spans = sliceSpan(joined.text, whole, config, config.overlap);
+  } else {
+    const separators = config.strategy === 'paragraph'
+      ? [PARAGRAPH_BREAK, SENTENCE_BREAK, WORD_BREAK]
+      : [SENTENCE_BREAK, WORD_BREAK];
+    // Sentence strategy packs sentences; paragraph strategy packs whole paragraphs when they fit
+    const units = splitSpan(joined.text, whole, separators[0]);
+    spans = pack(joined.text, units.flatMap(unit => segment(joined.text, unit, separators.slice(1), config)), config);
+  }
+
+  return spans.map(span => {
+    const start = locate(joined, span.start, false);
+    const end = locate(joined, span.end, true);
+    return {
+      type: 'text' as const,
+      text: joined.text.slice(span.start, span.end),
+      startPage: start.page,
+      startOffset: start.offset,
+      endPage: end.page,
+      endOffset: end.offset,
+    };
+  });
+}
+
+// Split extracted pages into chunks according to the configuration
+export function chunkPages(pages: PageText[], config: ChunkingConfig = DEFAULT_CHUNKING_CONFIG): TextChunk[] {
+  if (pages.length === 0) return [];
+  if (config.crossPages) return chunkJoined(joinPages(pages), config);
+  return pages.flatMap(page => chunkJoined(joinPages([page]), config));
+}
+
+// Helper: Render table rows as a Markdown table
+function toMarkdownTable(header: string[], rows: string[][]): string {
+  const width = Math.max(header.length, ...rows.map(row => row.length));
+  const cell = (value: string | undefined) => (value ?? '').replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim();
+  const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, i) => cell(cells[i])).join(' | ')} |`;
+  return [line(header), `|${' --- |'.repeat(width)}`, ...rows.map(line)].join('\n');
+}
+
+// Turn each table into one or more Markdown chunks. Tables larger than the chunk size are split
+// by rows, repeating the header so every chunk can be read on its own.
+export function chunkTables(tables: PageTable[], config: ChunkingConfig = DEFAULT_CHUNKING_CONFIG): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  for (const { page, rows } of tables) {
+    const nonEmpty = rows.filter(row => row.some(value => value && value.trim()));
+    if (nonEmpty.length === 0) continue;
+    const [header, ...body] = nonEmpty;
+
+    let group: string[][] = [];
+    const flush = () => {
+      chunks.push({ type: 'table', text: toMarkdownTable(header, group), startPage: page, startOffset: null, endPage: page, endOffset: null });
+      group = [];
+    };
+    for (const row of body) {
+      if (group.length > 0 && measure(toMarkdownTable(header, [...group, row]), config.unit) > config.chunkSize) flush();
+      group.push(row);
+    }
+    if (group.length > 0 || body.length === 0) flush();
+  }
+  return chunks;
+}
+
+// Chunk the prose and the tables of a document; prose chunks come first so indices stay stable
+export function chunkDocument(
+  { pages, tables }: { pages: PageText[], tables: PageTable[] },
+  config: ChunkingConfig = DEFAULT_CHUNKING_CONFIG
+): TextChunk[] {
+  return [...chunkPages(pages, config), ...chunkTables(tables, config)];
+}
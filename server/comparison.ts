@@ -0,0 +1,392 @@
+import type { PageText } from './chunker.ts';
+import { pool } from './db.ts';
+import { ApiError } from './http.ts';
+import { getPages } from './indexer.ts';
+import { SECTION_SEPARATOR, type Heading } from './sections.ts';
+
+// Version comparison of two indexed documents, e.g. v2 and v3 of a contract. Both texts are split
+// into clauses, the clauses are aligned in reading order, and what does not line up becomes a
+// change: removed from the base, added in the other version, or modified when a removed and an
+// added clause are similar enough to be two versions of one clause.
+
+export type Clause = {
+  // Clause number as written, e.g. "5.2" or "(b)"; null for unnumbered paragraphs
+  number: string | null;
+  text: string;
+  page: number;
+  section: string | null;
+};
+
+export type WordDiff = { type: 'equal' | 'added' | 'removed', text: string };
+
+export type ClauseChange = {
+  type: 'added' | 'removed' | 'modified';
+  base: Clause | null;
+  other: Clause | null;
+  // Word overlap of the two versions of a modified clause, from 0 to 1
+  similarity?: number;
+  // Word-level changes of a modified clause; omitted for very long clauses
+  diff?: WordDiff[];
+};
+
+// Section present in either version, matched by title without its numbering
+export type SectionAlignment = {
+  title: string;
+  basePage: number | null;
+  otherPage: number | null;
+  changes: number;
+};
+
+export type DocumentComparison = {
+  base: { id: number, filename: string, pageCount: number | null };
+  other: { id: number, filename: string, pageCount: number | null };
+  summary: { unchanged: number, added: number, removed: number, modified: number };
+  sections: SectionAlignment[];
+  // For each page of the other version, the base page most of its unchanged or modified clauses come from
+  pages: { otherPage: number, basePage: number | null }[];
+  changes: ClauseChange[];
+  // Whether changes were cut off at MAX_CHANGES
+  truncated: boolean;
+};
+
+// Clauses longer than this are split at the next line ending a sentence
+const MAX_CLAUSE_CHARS = 1200;
+// Minimum word overlap for a removed and an added clause to count as one modified clause
+const MODIFIED_THRESHOLD = 0.5;
+// Largest clause-by-clause table the exact alignment builds; bigger documents are aligned greedily
+const MAX_ALIGNMENT_CELLS = 4_000_000;
+const MAX_WORD_DIFF_CELLS = 250_000;
+// Removed and added clauses scored against each other per comparison when looking for modified
+// clauses, which keeps two unrelated documents from holding up the server
+const MAX_PAIRINGS = 100_000;
+const MAX_CHANGES = 500;
+
+// A clause starts at a numbered line ("5.", "5.2", "(b)", "IV.") or a "Clause 5"-style heading
+const CLAUSE_START = /^\s*(?:(\d{1,3}(?:\.\d{1,3})*)[.)]?\s|\(([a-z]{1,3}|\d{1,3})\)\s|([IVXLC]{1,6})\.\s|((?:cl[aá]usula|clause|article|artigo|section|se[cç][aã]o)\s+\S+))/i;
+const PAGE_NUMBER_LINE = /^\s*(?:(?:page|p[aá]gina|p\.)\s*)?\d+(?:\s*(?:of|de|\/)\s*\d+)?\s*$/i;
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// Helper: Clause text compared between versions: without its number, so renumbered clauses still match
+function clauseKey(clause: Clause): string {
+  const text = clause.number !== null ? clause.text.slice(clause.text.indexOf(clause.number) + clause.number.length) : clause.text;
+  return normalize(text.replace(/^[.)]/, '')).toLowerCase();
+}
+
+// Helper: Lines repeated on most pages (running headers and footers), which would otherwise end up
+// inside clauses wherever the page breaks fall
+function boilerplateLines(pages: PageText[]): Set<string> {
+  const counts = new Map<string, number>();
+  for (const page of pages) {
+    for (const line of new Set(page.text.split('\n').map(normalize).filter(Boolean))) {
+      counts.set(line, (counts.get(line) ?? 0) + 1);
+    }
+  }
+  const minimum = Math.max(2, Math.ceil(pages.length / 2));
+  return new Set([...counts].filter(([, count]) => count >= minimum).map(([line]) => line));
+}
+
+// Helper: Split page texts into clauses, each with the section it falls under. Clauses continue
+// across page breaks; running headers, footers and page numbers are left out.
+export function splitClauses(pages: PageText[], headings: Heading[]): Clause[] {
+  const skip = boilerplateLines(pages);
+  const clauses: Clause[] = [];
+  let current: { lines: string[], page: number, offset: number, number: string | null } | null = null;
+
+  const sectionAt = (page: number, offset: number) => {
+    let section: Heading | undefined;
+    for (const heading of headings) {
+      if (heading.page < page || (heading.page === page && heading.offset <= offset)) section = heading;
+      else break;
+    }
+    return section?.path ?? null;
+  };
+  const flush = () => {
+    const text = current ? current.lines.join('\n').trim() : '';
+    if (current && text) {
+      clauses.push({ number: current.number, text, page: current.page, section: sectionAt(current.page, current.offset) });
+    }
+    current = null;
+  };
+
+  for (const page of pages) {
+    let offset = 0;
+    let previousBlank = false;
+    for (const line of page.text.split('\n')) {
+      const lineOffset = offset;
+      offset += line.length + 1;
+      const trimmed = normalize(line);
+      if (!trimmed) {
+        previousBlank = true;
+        continue;
+      }
+      if (skip.has(trimmed) || PAGE_NUMBER_LINE.test(trimmed)) continue;
+
+      const start = trimmed.match(CLAUSE_START);
+      const tooLong = current !== null && current.lines.join('\n').length > MAX_CLAUSE_CHARS && /[.;:]$/.test(current.lines[current.lines.length - 1]);
+      if (!current || start || previousBlank || tooLong) {
+        flush();
+        const number = start ? (start[1] ?? (start[2] ? `(${start[2]})` : start[3] ?? start[4])) : null;
+        current = { lines: [], page: page.num, offset: lineOffset, number };
+      }
+      current!.lines.push(trimmed);
+      previousBlank = false;
+    }
+  }
+  flush();
+  return clauses;
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+(?:[.,][\p{N}]+)*/gu) ?? [];
+}
+
+// The words of a clause, counted once and reused for every pairing: the ids of its words (from a
+// vocabulary shared by the clauses compared) with how often each occurs
+type WordCounts = { ids: Int32Array, counts: Int32Array, total: number };
+
+function wordCounts(text: string, vocabulary: Map<string, number>): WordCounts {
+  const counts = new Map<number, number>();
+  const all = words(text);
+  for (const word of all) {
+    let id = vocabulary.get(word);
+    if (id === undefined) {
+      id = vocabulary.size;
+      vocabulary.set(word, id);
+    }
+    counts.set(id, (counts.get(id) ?? 0) + 1);
+  }
+  return { ids: Int32Array.from(counts.keys()), counts: Int32Array.from(counts.values()), total: all.length };
+}
+
+// Helper: Word overlap (Dice coefficient over word counts, from 0 to 1) of a clause with the
+// clause whose counts are spread over `loaded`, indexed by word id
+function similarity(loaded: Int32Array, loadedTotal: number, clause: WordCounts): number {
+  if (loadedTotal === 0 && clause.total === 0) return 1;
+  let shared = 0;
+  for (let i = 0; i < clause.ids.length; i++) shared += Math.min(clause.counts[i], loaded[clause.ids[i]]);
+  return (2 * shared) / (loadedTotal + clause.total);
+}
+
+// Helper: Longest common subsequence of two sequences, as index pairs in order. Returns null when
+// the table would exceed maxCells.
+function longestCommonSubsequence<T>(a: T[], b: T[], maxCells: number): [number, number][] | null {
+  const n = a.length;
+  const m = b.length;
+  if ((n + 1) * (m + 1) > maxCells) return null;
+  const width = m + 1;
+  const table = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * width + j] = a[i] === b[j]
+        ? table[(i + 1) * width + j + 1] + 1
+        : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+// Helper: Match equal keys in order, taking the next occurrence each time. Used for documents too
+// large for the exact alignment.
+function greedyMatches(a: string[], b: string[]): [number, number][] {
+  const positions = new Map<string, number[]>();
+  b.forEach((key, j) => {
+    const list = positions.get(key);
+    if (list) list.push(j);
+    else positions.set(key, [j]);
+  });
+  const pairs: [number, number][] = [];
+  let last = -1;
+  for (let i = 0; i < a.length; i++) {
+    const next = positions.get(a[i])?.find(j => j > last);
+    if (next !== undefined) {
+      pairs.push([i, next]);
+      last = next;
+    }
+  }
+  return pairs;
+}
+
+// Helper: Word-level diff of two versions of a clause, with adjacent words of the same kind merged
+export function diffWords(a: string, b: string): WordDiff[] | undefined {
+  const aWords = normalize(a).split(' ');
+  const bWords = normalize(b).split(' ');
+  const pairs = longestCommonSubsequence(aWords, bWords, MAX_WORD_DIFF_CELLS);
+  if (!pairs) return undefined;
+
+  const parts: WordDiff[] = [];
+  const push = (type: WordDiff['type'], word: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += ` ${word}`;
+    else parts.push({ type, text: word });
+  };
+  let i = 0;
+  let j = 0;
+  for (const [pi, pj] of [...pairs, [aWords.length, bWords.length] as [number, number]]) {
+    while (i < pi) push('removed', aWords[i++]);
+    while (j < pj) push('added', bWords[j++]);
+    if (pi < aWords.length) push('equal', aWords[pi]);
+    i = pi + 1;
+    j = pj + 1;
+  }
+  return parts;
+}
+
+// Helper: Changes within a stretch that did not align: pair removed and added clauses that are
+// versions of each other, in order, and report the rest as removed or added
+function gapChanges(removed: Clause[], added: Clause[], budget: { pairings: number }): ClauseChange[] {
+  const pairs: { r: number, a: number, score: number }[] = [];
+  // Every removed clause is scored against every added one. Once the budget of pairings is spent,
+  // as when two unrelated documents are compared, clauses are reported as removed and added.
+  const pairable = removed.length * added.length <= budget.pairings;
+  if (pairable) budget.pairings -= removed.length * added.length;
+  const vocabulary = new Map<string, number>();
+  const removedWords = pairable ? removed.map(clause => wordCounts(clause.text, vocabulary)) : [];
+  const addedWords = removedWords.length > 0 ? added.map(clause => wordCounts(clause.text, vocabulary)) : [];
+  // Counts of the removed clause being paired, by word id
+  const loaded = new Int32Array(vocabulary.size);
+  let nextAdded = 0;
+  for (let r = 0; r < removedWords.length; r++) {
+    const { ids, counts, total } = removedWords[r];
+    ids.forEach((id, i) => loaded[id] = counts[i]);
+    let best: { a: number, score: number } | null = null;
+    for (let a = nextAdded; a < added.length; a++) {
+      // The same clause number is a strong hint that it is the same clause
+      const bonus = removed[r].number !== null && removed[r].number === added[a].number ? 0.15 : 0;
+      const score = similarity(loaded, total, addedWords[a]);
+      if (score + bonus >= MODIFIED_THRESHOLD && (!best || score > best.score)) best = { a, score };
+    }
+    ids.forEach(id => loaded[id] = 0);
+    if (best) {
+      pairs.push({ r, a: best.a, score: best.score });
+      nextAdded = best.a + 1;
+    }
+  }
+
+  const changes: ClauseChange[] = [];
+  let r = 0;
+  let a = 0;
+  for (const pair of [...pairs, { r: removed.length, a: added.length, score: 0 }]) {
+    while (r < pair.r) changes.push({ type: 'removed', base: removed[r++], other: null });
+    while (a < pair.a) changes.push({ type: 'added', base: null, other: added[a++] });
+    if (pair.r < removed.length) {
+      const base = removed[pair.r];
+      const other = added[pair.a];
+      changes.push({ type: 'modified', base, other, similarity: Math.round(pair.score * 100) / 100, diff: diffWords(base.text, other.text) });
+    }
+    r = pair.r + 1;
+    a = pair.a + 1;
+  }
+  return changes;
+}
+
+// Diff two lists of clauses: aligned clauses are unchanged, the gaps between them hold the changes
+export function diffClauses(base: Clause[], other: Clause[]): { changes: ClauseChange[], matches: [Clause, Clause][] } {
+  const baseKeys = base.map(clauseKey);
+  const otherKeys = other.map(clauseKey);
+  const anchors = longestCommonSubsequence(baseKeys, otherKeys, MAX_ALIGNMENT_CELLS) ?? greedyMatches(baseKeys, otherKeys);
+
+  const changes: ClauseChange[] = [];
+  const matches: [Clause, Clause][] = [];
+  const budget = { pairings: MAX_PAIRINGS };
+  let i = 0;
+  let j = 0;
+  for (const [bi, oj] of [...anchors, [base.length, other.length] as [number, number]]) {
+    changes.push(...gapChanges(base.slice(i, bi), other.slice(j, oj), budget));
+    if (bi < base.length) matches.push([base[bi], other[oj]]);
+    i = bi + 1;
+    j = oj + 1;
+  }
+  return { changes, matches };
+}
+
+// Helper: Section title without its numbering, to match renumbered sections
+function sectionKey(title: string): string {
+  return normalize(title.replace(/^\s*[\dIVXLC]+(?:\.\d+)*\.?\s+/i, '')).toLowerCase();
+}
+
+// Helper: Line up the sections of both versions and count the changes in each
+function alignSections(baseHeadings: Heading[], otherHeadings: Heading[], changes: ClauseChange[]): SectionAlignment[] {
+  const sections = new Map<string, SectionAlignment>();
+  for (const heading of otherHeadings) {
+    const key = sectionKey(heading.title);
+    if (!sections.has(key)) sections.set(key, { title: heading.title, basePage: null, otherPage: heading.page, changes: 0 });
+  }
+  for (const heading of baseHeadings) {
+    const key = sectionKey(heading.title);
+    const section = sections.get(key);
+    if (section) section.basePage ??= heading.page;
+    else sections.set(key, { title: heading.title, basePage: heading.page, otherPage: null, changes: 0 });
+  }
+  for (const change of changes) {
+    const path = change.other?.section ?? change.base?.section;
+    const title = path?.split(SECTION_SEPARATOR).pop();
+    const section = title !== undefined ? sections.get(sectionKey(title)) : undefined;
+    if (section) section.changes++;
+  }
+  return [...sections.values()];
+}
+
+// Helper: For each page of the other version, the base page its aligned clauses mostly come from
+function alignPages(otherPageCount: number, pairs: [Clause, Clause][]): DocumentComparison['pages'] {
+  const votes = new Map<number, Map<number, number>>();
+  for (const [base, other] of pairs) {
+    const pageVotes = votes.get(other.page) ?? new Map<number, number>();
+    pageVotes.set(base.page, (pageVotes.get(base.page) ?? 0) + 1);
+    votes.set(other.page, pageVotes);
+  }
+  return Array.from({ length: otherPageCount }, (_, i) => {
+    const pageVotes = votes.get(i + 1);
+    const best = pageVotes ? [...pageVotes].sort((a, b) => b[1] - a[1] || a[0] - b[0])[0][0] : null;
+    return { otherPage: i + 1, basePage: best };
+  });
+}
+
+async function loadVersion(documentId: number) {
+  const { rows: [document] } = await pool.query('SELECT id, filename, page_count, outline FROM documents WHERE id = $1', [documentId]);
+  if (!document) throw new ApiError(404, `Document ${documentId} not found`);
+  const pages = await getPages(documentId);
+  if (pages.length === 0) throw new ApiError(409, `${document.filename} has no extracted text yet.`);
+  const headings: Heading[] = document.outline ?? [];
+  return {
+    info: { id: document.id as number, filename: document.filename as string, pageCount: document.page_count as number | null },
+    pages,
+    headings,
+    clauses: splitClauses(pages, headings),
+  };
+}
+
+// Compare two versions of a document; base is the earlier one
+export async function compareDocuments(baseId: number, otherId: number): Promise<DocumentComparison> {
+  if (baseId === otherId) throw new ApiError(400, 'Select two different documents to compare.');
+  const [base, other] = await Promise.all([loadVersion(baseId), loadVersion(otherId)]);
+  const { changes, matches } = diffClauses(base.clauses, other.clauses);
+
+  const modifiedPairs = changes.filter(change => change.type === 'modified').map(change => [change.base!, change.other!] as [Clause, Clause]);
+  const count = (type: ClauseChange['type']) => changes.filter(change => change.type === type).length;
+  return {
+    base: base.info,
+    other: other.info,
+    summary: { unchanged: matches.length, added: count('added'), removed: count('removed'), modified: count('modified') },
+    sections: alignSections(base.headings, other.headings, changes),
+    pages: alignPages(other.pages.length, [...matches, ...modifiedPairs]),
+    changes: changes.slice(0, MAX_CHANGES),
+    truncated: changes.length > MAX_CHANGES,
+  };
+}
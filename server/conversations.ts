@@ -0,0 +1,162 @@
+import { estimateTokens } from './chunker.ts';
+import { pool } from './db.ts';
+import type { ChatMessage } from './providers/index.ts';
+
+// Conversations persist the chat per set of documents, so they survive a reload and the
+// server, not the client, decides how much history goes to the model.
+
+export type MessageRole = 'user' | 'assistant';
+
+// Estimated tokens of earlier messages sent along with a question
+export const DEFAULT_HISTORY_TOKENS = Number(process.env.CHAT_HISTORY_TOKENS) || 2000;
+
+const CONVERSATION_COLUMNS = `
+  c.id, c.title, c.created_at, c.updated_at,
+  ARRAY(SELECT cd.document_id FROM conversation_documents cd WHERE cd.conversation_id = c.id ORDER BY cd.document_id) AS document_ids,
+  (SELECT COUNT(*) FROM messages m WHERE m.conversation_id = c.id) AS message_count
+`;
+
+function toConversationJson(row: any) {
+  return {
+    id: row.id,
+    title: row.title,
+    documentIds: row.document_ids ?? [],
+    messageCount: Number(row.message_count ?? 0),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toMessageJson(row: any) {
+  return {
+    id: row.id,
+    role: row.role as MessageRole,
+    content: row.content,
+    sources: row.sources ?? [],
+    createdAt: row.created_at,
+  };
+}
+
+// Helper: Title for a new conversation, taken from its first question
+export function titleFromMessage(message: string): string {
+  const text = message.replace(/\s+/g, ' ').trim();
+  return text.length > 60 ? `${text.slice(0, 60)}…` : text || 'New conversation';
+}
+
+export async function createConversation(title: string, documentIds: number[]) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const { rows: [conversation] } = await client.query('INSERT INTO conversations (title) VALUES ($1) RETURNING id', [title]);
+    if (documentIds.length > 0) {
+      // Ids of documents that no longer exist are dropped rather than failing the chat
+      await client.query(
+        `INSERT INTO conversation_documents (conversation_id, document_id)
+         SELECT $1, d.id FROM documents d WHERE d.id = ANY($2::int[])`,
+        [conversation.id, documentIds]
+      );
+    }
+    const { rows: [row] } = await client.query(`SELECT ${CONVERSATION_COLUMNS} FROM conversations c WHERE c.id = $1`, [conversation.id]);
+    await client.query('COMMIT');
+    return toConversationJson(row);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Conversations, most recently active first; optionally only those about one document
+export async function listConversations(documentId: number | null) {
+  const { rows } = await pool.query(
+    `SELECT ${CONVERSATION_COLUMNS} FROM conversations c
+     WHERE $1::int IS NULL OR EXISTS (
+       SELECT 1 FROM conversation_documents cd WHERE cd.conversation_id = c.id AND cd.document_id = $1
+     )
+     ORDER BY c.updated_at DESC`,
+    [documentId]
+  );
+  return rows.map(toConversationJson);
+}
+
+// A conversation with all of its messages, or null if it doesn't exist
+export async function getConversation(id: number) {
+  const { rows } = await pool.query(`SELECT ${CONVERSATION_COLUMNS} FROM conversations c WHERE c.id = $1`, [id]);
+  if (rows.length === 0) return null;
+  const { rows: messages } = await pool.query(
+    'SELECT id, role, content, sources, created_at FROM messages WHERE conversation_id = $1 ORDER BY id',
+    [id]
+  );
+  return { ...toConversationJson(rows[0]), messages: messages.map(toMessageJson) };
+}
+
+export type ConversationWithMessages = NonNullable<Awaited<ReturnType<typeof getConversation>>>;
+
+// Helper: Page reference of a cited source, e.g. "p. 3" or "pp. 3–4"
+function formatSourcePages(source: any): string {
+  const end = source.endPageNumber ?? source.pageNumber;
+  return end !== source.pageNumber ? `pp. ${source.pageNumber}–${end}` : `p. ${source.pageNumber}`;
+}
+
+// A conversation as a Markdown document: each question, its answer and the passages the answer cited
+export function conversationToMarkdown(conversation: ConversationWithMessages): string {
+  const lines = [`# ${conversation.title}`, '', `_Exported ${new Date().toISOString()}_`, ''];
+  for (const message of conversation.messages) {
+    if (message.role === 'user') {
+      lines.push(`## ${message.content.replace(/\s+/g, ' ').trim()}`, '');
+      continue;
+    }
+    lines.push(message.content.trim(), '');
+    if (message.sources.length > 0) {
+      lines.push('**Sources**', '');
+      for (const source of message.sources) {
+        const location = [source.filename, formatSourcePages(source), source.sectionPath].filter(Boolean).join(' · ');
+        lines.push(`- ${location}`);
+        if (source.snippet) lines.push(`  > ${source.snippet}`);
+      }
+      lines.push('');
+    }
+  }
+  return lines.join('\n');
+}
+
+export async function renameConversation(id: number, title: string) {
+  const { rowCount } = await pool.query('UPDATE conversations SET title = $2, updated_at = NOW() WHERE id = $1', [id, title]);
+  if (!rowCount) return null;
+  const { rows: [row] } = await pool.query(`SELECT ${CONVERSATION_COLUMNS} FROM conversations c WHERE c.id = $1`, [id]);
+  return toConversationJson(row);
+}
+
+export async function deleteConversation(id: number): Promise<boolean> {
+  const { rowCount } = await pool.query('DELETE FROM conversations WHERE id = $1', [id]);
+  return Boolean(rowCount);
+}
+
+export async function appendMessage(conversationId: number, role: MessageRole, content: string, sources: unknown[] = []) {
+  await pool.query(
+    'INSERT INTO messages (conversation_id, role, content, sources) VALUES ($1, $2, $3, $4)',
+    [conversationId, role, content, JSON.stringify(sources)]
+  );
+  await pool.query('UPDATE conversations SET updated_at = NOW() WHERE id = $1', [conversationId]);
+}
+
+// The most recent messages of a conversation that fit in the token budget, oldest first.
+// Whole messages are dropped from the start so the model never sees half a turn.
+export async function loadHistory(conversationId: number, tokenBudget = DEFAULT_HISTORY_TOKENS): Promise<ChatMessage[]> {
+  const { rows } = await pool.query(
+    'SELECT role, content FROM messages WHERE conversation_id = $1 ORDER BY id DESC',
+    [conversationId]
+  );
+
+  const history: ChatMessage[] = [];
+  let used = 0;
+  for (const row of rows) {
+    used += estimateTokens(row.content);
+    if (used > tokenBudget) break;
+    history.unshift({ role: row.role, content: row.content });
+  }
+  // A history starting with an answer has lost its question; drop it
+  while (history[0]?.role === 'assistant') history.shift();
+  return history;
+}
@@ -0,0 +1,302 @@
+import { RE2JS } from 're2js';
+import { ApiError } from './http.ts';
+import type { ChatMessage, ModelProvider } from './providers/index.ts';
+import { formatContextLabel, retrieveContext, toSource, type RetrievalOptions, type RetrievedChunk, type SearchFilter } from './retrieval.ts';
+
+// Schema-driven extraction behind /api/extract: pull the fields of a JSON Schema out of the
+// indexed documents. Each field gets its own retrieval; the model then fills in all fields at once
+// with structured output, citing the passage of each value, and its answer is validated against
+// the schema and sent back with the errors until it fits.
+
+type JsonSchema = Record<string, any>;
+
+export type ExtractionRequest = {
+  provider: ModelProvider;
+  chatModel: string;
+  embeddingModel: string;
+  schema: JsonSchema;
+  filter: SearchFilter;
+  retrieval: RetrievalOptions;
+  signal?: AbortSignal;
+};
+
+export type ExtractedField = {
+  name: string;
+  // null when the documents do not contain the field
+  value: unknown;
+  // The model's confidence in the value, from 0 to 1
+  confidence: number;
+  // Passage the value was read from
+  citation: ReturnType<typeof toSource> | null;
+};
+
+export type ExtractionResult = {
+  // The values found, each valid against its field schema
+  data: Record<string, unknown>;
+  fields: ExtractedField[];
+  // Fields the documents did not contain
+  missing: string[];
+  // Model calls it took to get a valid answer; 0 when nothing relevant was retrieved
+  attempts: number;
+};
+
+const MAX_FIELDS = 30;
+const MAX_ATTEMPTS = 3;
+// Validation errors sent back to the model per retry
+const MAX_REPORTED_ERRORS = 10;
+const SCHEMA_TYPES = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+// Patterns come from the request and run on the server's only thread; RE2 keeps matching linear,
+// and these bound the size of the compiled pattern and of the values it runs on
+const MAX_PATTERN_LENGTH = 200;
+const MAX_PATTERN_INPUT = 1000;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'integer': return Number.isInteger(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'object': return isObject(value);
+    case 'array': return Array.isArray(value);
+    case 'null': return value === null;
+    default: return false;
+  }
+}
+
+// Helper: Compile a schema pattern with RE2, which matches in time linear in the input, so no
+// pattern can stall the server. Compiled patterns are cached, as they are checked on every retry.
+const MAX_CACHED_PATTERNS = 500;
+const compiledPatterns = new Map<string, RE2JS>();
+function compilePattern(pattern: string): RE2JS {
+  let compiled = compiledPatterns.get(pattern);
+  if (!compiled) {
+    compiled = RE2JS.compile(pattern);
+    if (compiledPatterns.size >= MAX_CACHED_PATTERNS) compiledPatterns.clear();
+    compiledPatterns.set(pattern, compiled);
+  }
+  return compiled;
+}
+
+function matchesFormat(value: string, format: string): boolean {
+  switch (format) {
+    case 'date': return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+    case 'date-time': return /^\d{4}-\d{2}-\d{2}T/.test(value) && !Number.isNaN(Date.parse(value));
+    case 'email': return /^[^\s@]+@[^\s@]+$/.test(value);
+    // Other formats are annotations only
+    default: return true;
+  }
+}
+
+// Helper: Validate a value against the JSON Schema keywords extraction supports: type, enum,
+// const, anyOf, properties, required, additionalProperties, items, length and range bounds,
+// pattern and the date and email formats. Returns the errors, each prefixed with the value's path.
+export function validateValue(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  if (Array.isArray(schema.anyOf) && !schema.anyOf.some((branch: JsonSchema) => validateValue(value, branch, path).length === 0)) {
+    return [`${path} does not match any of the allowed schemas`];
+  }
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => hasType(value, type))) return [`${path} must be ${types.join(' or ')}`];
+  }
+  const same = (a: unknown) => JSON.stringify(a) === JSON.stringify(value);
+  if (Array.isArray(schema.enum) && !schema.enum.some(same)) return [`${path} must be one of ${JSON.stringify(schema.enum)}`];
+  if ('const' in schema && !same(schema.const)) return [`${path} must be ${JSON.stringify(schema.const)}`];
+
+  const errors: string[] = [];
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${path} must have at least ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`${path} must have at most ${schema.maxLength} characters`);
+    if (schema.pattern !== undefined) {
+      if (value.length > MAX_PATTERN_INPUT) errors.push(`${path} is too long to check against ${schema.pattern}`);
+      else if (!compilePattern(schema.pattern).matcher(value).find()) errors.push(`${path} must match ${schema.pattern}`);
+    }
+    if (schema.format !== undefined && !matchesFormat(value, schema.format)) errors.push(`${path} must be a valid ${schema.format}`);
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path} must be at least ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path} must be at most ${schema.maximum}`);
+  }
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path} must have at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path} must have at most ${schema.maxItems} items`);
+    if (isObject(schema.items)) value.forEach((item, i) => errors.push(...validateValue(item, schema.items, `${path}[${i}]`)));
+  }
+  if (isObject(value)) {
+    const properties: Record<string, JsonSchema> = isObject(schema.properties) ? schema.properties : {};
+    for (const key of Array.isArray(schema.required) ? schema.required : []) {
+      if (!(key in value)) errors.push(`${path}.${key} is required`);
+    }
+    for (const [key, item] of Object.entries(value)) {
+      if (properties[key]) errors.push(...validateValue(item, properties[key], `${path}.${key}`));
+      else if (schema.additionalProperties === false) errors.push(`${path}.${key} is not allowed`);
+    }
+  }
+  return errors;
+}
+
+// Helper: Check that a schema only uses known types and well-formed nested schemas and patterns
+function checkSchema(schema: unknown, path: string) {
+  if (!isObject(schema)) throw new Error(`${path} must be a schema object`);
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  for (const type of types) {
+    if (!SCHEMA_TYPES.includes(type as string)) throw new Error(`${path}.type must be one of: ${SCHEMA_TYPES.join(', ')}`);
+  }
+  if (schema.pattern !== undefined) {
+    if (typeof schema.pattern !== 'string') throw new Error(`${path}.pattern must be a string`);
+    if (schema.pattern.length > MAX_PATTERN_LENGTH) throw new Error(`${path}.pattern must have at most ${MAX_PATTERN_LENGTH} characters`);
+    try {
+      compilePattern(schema.pattern);
+    } catch {
+      // RE2 has no backreferences or lookaround
+      throw new Error(`${path}.pattern is not a valid regular expression (backreferences and lookaround are not supported)`);
+    }
+  }
+  if (schema.enum !== undefined && !Array.isArray(schema.enum)) throw new Error(`${path}.enum must be an array`);
+  if (schema.required !== undefined && (!Array.isArray(schema.required) || schema.required.some(key => typeof key !== 'string'))) {
+    throw new Error(`${path}.required must be an array of property names`);
+  }
+  if (schema.properties !== undefined) {
+    if (!isObject(schema.properties)) throw new Error(`${path}.properties must be an object`);
+    for (const [key, property] of Object.entries(schema.properties)) checkSchema(property, `${path}.properties.${key}`);
+  }
+  if (schema.items !== undefined) checkSchema(schema.items, `${path}.items`);
+  if (schema.anyOf !== undefined) {
+    if (!Array.isArray(schema.anyOf)) throw new Error(`${path}.anyOf must be an array`);
+    schema.anyOf.forEach((branch, i) => checkSchema(branch, `${path}.anyOf[${i}]`));
+  }
+}
+
+// Helper: Parse the schema of an extraction request: an object schema whose properties are the
+// fields to extract
+export function parseExtractionSchema(input: unknown): JsonSchema {
+  if (!isObject(input)) throw new Error('schema must be a JSON Schema object');
+  if (input.type !== undefined && input.type !== 'object') throw new Error('schema.type must be "object"');
+  if (!isObject(input.properties) || Object.keys(input.properties).length === 0) {
+    throw new Error('schema.properties must list the fields to extract');
+  }
+  if (Object.keys(input.properties).length > MAX_FIELDS) throw new Error(`schema can have at most ${MAX_FIELDS} fields`);
+  checkSchema(input, 'schema');
+  return { ...input, type: 'object' };
+}
+
+// Helper: Search query for a field: its title, or its name in words, and its description
+function fieldQuery(name: string, field: JsonSchema): string {
+  const label = typeof field.title === 'string' && field.title.trim()
+    ? field.title.trim()
+    : name.replace(/[_-]+/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2');
+  return typeof field.description === 'string' && field.description.trim() ? `${label}: ${field.description.trim()}` : label;
+}
+
+// Helper: A field's schema that also admits null, for values the documents do not contain
+function nullable(field: JsonSchema): JsonSchema {
+  if (field.enum === undefined && field.const === undefined && field.anyOf === undefined && field.type !== undefined) {
+    const types: string[] = Array.isArray(field.type) ? field.type : [field.type];
+    return { ...field, type: types.includes('null') ? types : [...types, 'null'] };
+  }
+  return { anyOf: [field, { type: 'null' }] };
+}
+
+// Helper: Schema of the model's answer: per field its value, the number of the passage it was
+// found in and a confidence
+function answerSchema(fields: [string, JsonSchema][], passageCount: number): JsonSchema {
+  return {
+    type: 'object',
+    properties: Object.fromEntries(fields.map(([name, field]) => [name, {
+      type: 'object',
+      properties: {
+        value: nullable(field),
+        source: { type: ['integer', 'null'], minimum: 1, maximum: passageCount },
+        confidence: { type: 'number', minimum: 0, maximum: 1 },
+      },
+      required: ['value', 'source', 'confidence'],
+      additionalProperties: false,
+    }])),
+    required: fields.map(([name]) => name),
+    additionalProperties: false,
+  };
+}
+
+// Helper: Parse and validate an answer of the model; a value needs the passage it came from
+function checkAnswer(reply: string, format: JsonSchema, fields: [string, JsonSchema][]): { answer: any, errors: string[] } {
+  let answer: any;
+  try {
+    answer = JSON.parse(reply.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch {
+    return { answer: null, errors: ['The answer is not valid JSON'] };
+  }
+  const errors = validateValue(answer, format);
+  if (errors.length === 0) {
+    for (const [name] of fields) {
+      if (answer[name].value !== null && answer[name].source === null) errors.push(`$.${name}.source must give the passage the value was found in`);
+    }
+  }
+  return { answer, errors };
+}
+
+export async function extractFields(request: ExtractionRequest): Promise<ExtractionResult> {
+  const { provider, chatModel, embeddingModel, schema, filter, retrieval, signal } = request;
+  const fields = Object.entries(schema.properties as Record<string, JsonSchema>);
+
+  // One retrieval per field, so that every field gets the passages that mention it
+  const queries = fields.map(([name, field]) => fieldQuery(name, field));
+  const embeddings = retrieval.mode !== 'keyword' ? await provider.embed(queries, embeddingModel) : null;
+  const space = { provider: provider.name, model: embeddingModel };
+  const passages: RetrievedChunk[] = [];
+  for (const [i, query] of queries.entries()) {
+    const chunks = await retrieveContext([query], embeddings ? [embeddings[i]] : null, space, filter, retrieval, { provider, chatModel, signal });
+    for (const chunk of chunks) {
+      if (!passages.some(passage => passage.id === chunk.id)) passages.push(chunk);
+    }
+  }
+
+  if (passages.length === 0) {
+    return {
+      data: {},
+      fields: fields.map(([name]) => ({ name, value: null, confidence: 0, citation: null })),
+      missing: fields.map(([name]) => name),
+      attempts: 0,
+    };
+  }
+
+  const format = answerSchema(fields, passages.length);
+  const fieldList = fields.map(([name, field]) => `- ${name}${field.description ? `: ${field.description}` : ''}`).join('\n');
+  const systemPrompt = `You extract structured data from PDF documents. For each field, read the numbered passages and give its value, the number of the passage it was found in and your confidence from 0 to 1. If the passages do not contain a field, answer null as its value and source instead of guessing. Values must follow the field's JSON Schema: numbers and dates as values of that type, without the text around them.\n\nFields:\n${fieldList}\n\nJSON Schema of the fields:\n${JSON.stringify(schema)}`;
+  const context = passages.map((chunk, i) => `[${i + 1}] ${formatContextLabel(chunk)}\n${chunk.text}`).join('\n\n---\n\n');
+  const messages: ChatMessage[] = [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: `Passages:\n\n${context}\n\nExtract the fields as JSON.` },
+  ];
+
+  let errors: string[] = [];
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const reply = await provider.chat(messages, chatModel, { temperature: 0, format, signal });
+    const checked = checkAnswer(reply, format, fields);
+    errors = checked.errors;
+    if (errors.length === 0) {
+      const result: ExtractionResult = { data: {}, fields: [], missing: [], attempts: attempt };
+      for (const [name] of fields) {
+        const { value, source, confidence } = checked.answer[name];
+        if (value === null) {
+          result.missing.push(name);
+          result.fields.push({ name, value: null, confidence, citation: null });
+        } else {
+          result.data[name] = value;
+          result.fields.push({ name, value, confidence, citation: toSource(passages[source - 1]) });
+        }
+      }
+      return result;
+    }
+
+    // Show the model what was wrong and ask again
+    const reported = errors.slice(0, MAX_REPORTED_ERRORS).map(error => `- ${error}`).join('\n');
+    messages.push(
+      { role: 'assistant', content: reply },
+      { role: 'user', content: `That answer does not match the schema:\n${reported}\n\nAnswer again with the complete, corrected JSON object.` },
+    );
+  }
+  throw new ApiError(502, `The model did not return valid data after ${MAX_ATTEMPTS} attempts: ${errors.slice(0, 3).join('; ')}`);
+}
@@ -0,0 +1,59 @@
+import type { Response } from 'express';
+import { ProviderError } from './providers/index.ts';
+
+// Request validation and error responses shared by the routes. Every failed request is answered
+// with a JSON body of the form { error: message }; validation failures use 4xx statuses.
+
+// Error carrying the HTTP status to answer with
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Helper: Answer a failed request. Failures of the model server the request named are answered
+// with 502 and their message; other unexpected errors are logged and answered with 500 and the
+// fallback message, so internal details stay in the server log.
+export function sendError(res: Response, error: any, fallback: string) {
+  if (error instanceof ApiError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  if (error instanceof ProviderError) {
+    return res.status(502).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  return res.status(500).json({ error: fallback });
+}
+
+// Helper: Run a parser whose errors are the client's fault, turning them into 400 responses
+export function validate<T>(parse: () => T): T {
+  try {
+    return parse();
+  } catch (error: any) {
+    throw new ApiError(400, error.message);
+  }
+}
+
+// Ids are SERIAL columns, so anything larger could never match a row
+const MAX_ID = 2_147_483_647;
+
+// Helper: Parse a positive integer route or query parameter
+export function parseId(value: unknown, name = 'id'): number {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id < 1 || id > MAX_ID) throw new ApiError(400, `${name} must be a positive integer`);
+  return id;
+}
+
+// Helper: Parse ?limit=&offset= of a paginated list
+export function parsePagination(query: any, defaultLimit = 50, maxLimit = 200): { limit: number, offset: number } {
+  const limit = query.limit !== undefined ? Number(query.limit) : defaultLimit;
+  if (!Number.isInteger(limit) || limit < 1 || limit > maxLimit) {
+    throw new ApiError(400, `limit must be an integer between 1 and ${maxLimit}`);
+  }
+  const offset = query.offset !== undefined ? Number(query.offset) : 0;
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new ApiError(400, 'offset must be a non-negative integer');
+  }
+  return { limit, offset };
+}
@@ -0,0 +1,404 @@
+import { createHash } from 'crypto';
+import { PDFParse } from 'pdf-parse';
+import { getDocument, type PDFDocumentProxy } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { chunkDocument, type ChunkingConfig, type PageTable, type PageText, type TextChunk } from './chunker.ts';
+import { pool, ensureVectorIndex, toVectorLiteral } from './db.ts';
+import { withRetry, type ModelProvider, type ProviderName } from './providers/index.ts';
+import { assignSections, detectHeadings, headingsFromOutline, type Heading, type OutlineItem } from './sections.ts';
+
+export type EmbeddingOptions = {
+  provider: ModelProvider;
+  embeddingModel: string;
+  // Chunks per /api/embed request
+  batchSize?: number;
+  // Batches embedded and inserted at the same time
+  concurrency?: number;
+  // Stops the run before the next batch; committed batches are kept
+  signal?: AbortSignal;
+};
+
+export type IndexingProgress = {
+  done: number;
+  total: number;
+  // Chunks already committed by an earlier, interrupted run
+  resumed: number;
+  // Chunks of this run whose embedding came from the cache
+  reused: number;
+  // Chunks of this run sent to the embedding model
+  embedded: number;
+};
+
+const DEFAULT_BATCH_SIZE = 16;
+const DEFAULT_CONCURRENCY = 2;
+
+// Helper: SHA-256 of a file or chunk text, as hex
+export function contentHash(data: string | Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+// Fields of the PDF info dictionary worth showing; dates as ISO strings
+export type DocumentMetadata = {
+  title: string | null;
+  author: string | null;
+  subject: string | null;
+  keywords: string | null;
+  creator: string | null;
+  producer: string | null;
+  createdAt: string | null;
+  modifiedAt: string | null;
+};
+
+export type ExtractedDocument = {
+  pages: PageText[];
+  tables: PageTable[];
+  pageCount: number;
+  metadata: DocumentMetadata;
+  headings: Heading[];
+};
+
+function infoText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function isoDate(value: Date | null | undefined): string | null {
+  return value && !Number.isNaN(value.getTime()) ? value.toISOString() : null;
+}
+
+// Helper: Page number an outline destination points to, given by name or as an explicit destination
+async function destinationPage(doc: PDFDocumentProxy, dest: OutlineItem['dest']): Promise<number | null> {
+  const explicit = typeof dest === 'string' ? await doc.getDestination(dest) : dest;
+  if (!Array.isArray(explicit) || explicit[0] === undefined || explicit[0] === null) return null;
+  const index = typeof explicit[0] === 'number' ? explicit[0] : await doc.getPageIndex(explicit[0]);
+  return index + 1;
+}
+
+// Read the info dictionary and the outline. pdf-parse doesn't expose the pdf.js document that
+// outline destinations are resolved with, so documents with an outline are opened with pdf.js too.
+async function extractStructure(parser: PDFParse, data: Uint8Array, pages: PageText[]) {
+  const info = await parser.getInfo();
+  const dates = info.getDateNode();
+  const metadata: DocumentMetadata = {
+    title: infoText(info.info?.Title),
+    author: infoText(info.info?.Author),
+    subject: infoText(info.info?.Subject),
+    keywords: infoText(info.info?.Keywords),
+    creator: infoText(info.info?.Creator),
+    producer: infoText(info.info?.Producer),
+    createdAt: isoDate(dates.CreationDate),
+    modifiedAt: isoDate(dates.ModDate),
+  };
+
+  if (!info.outline?.length) return { metadata, headings: detectHeadings(pages) };
+
+  const doc = await getDocument({ data: new Uint8Array(data), verbosity: 0 }).promise;
+  try {
+    const headings = await headingsFromOutline(info.outline, pages, dest => destinationPage(doc, dest));
+    return { metadata, headings };
+  } finally {
+    await doc.destroy();
+  }
+}
+
+const EMPTY_METADATA: DocumentMetadata = {
+  title: null, author: null, subject: null, keywords: null, creator: null, producer: null, createdAt: null, modifiedAt: null,
+};
+
+// Extract the text, tables, metadata and headings of a PDF
+export async function extractPages(data: Uint8Array): Promise<ExtractedDocument> {
+  // pdf.js may take ownership of the buffer it parses, so give it a copy
+  const parser = new PDFParse({ data: new Uint8Array(data) });
+  try {
+    const pdfData = await parser.getText();
+    const pages = pdfData.pages && Array.isArray(pdfData.pages)
+      ? pdfData.pages
+      // Fallback if pages array is not available
+      : [{ num: 1, text: pdfData.text }];
+
+    // Metadata and outline are extras; a damaged info dictionary or outline shouldn't fail the upload
+    let structure: { metadata: DocumentMetadata, headings: Heading[] } = { metadata: EMPTY_METADATA, headings: detectHeadings(pages) };
+    try {
+      structure = await extractStructure(parser, data, pages);
+    } catch (error) {
+      console.warn('Outline extraction failed, falling back to numbered headings:', error);
+    }
+
+    // Table detection works from the drawn cell borders; a failure there shouldn't lose the text
+    let tables: PageTable[] = [];
+    try {
+      const tableData = await parser.getTable();
+      tables = tableData.pages.flatMap(page => page.tables.map(rows => ({ page: page.num, rows })));
+    } catch (error) {
+      console.warn('Table extraction failed, indexing text only:', error);
+    }
+
+    return { pages, tables, pageCount: pdfData.total, ...structure };
+  } finally {
+    await parser.destroy();
+  }
+}
+
+// Chunk an extracted document and tag every chunk with the section it belongs to
+export function buildChunks(extracted: ExtractedDocument, config?: ChunkingConfig): TextChunk[] {
+  return assignSections(chunkDocument(extracted, config), extracted.headings);
+}
+
+// Store an uploaded PDF as a new document, queued for indexDocument
+export async function createDocument(filename: string, content: Buffer, chunking: ChunkingConfig, options: EmbeddingOptions) {
+  const { rows: [document] } = await pool.query(
+    `INSERT INTO documents (filename, embedding_provider, embedding_model, chunking_config, status, content_hash, content)
+     VALUES ($1, $2, $3, $4, 'queued', $5, $6)
+     RETURNING id, filename, page_count, uploaded_at, embedding_provider, embedding_model, status, chunk_total, metadata`,
+    [filename, options.provider.name, options.embeddingModel, JSON.stringify(chunking), contentHash(content), content]
+  );
+  return document;
+}
+
+// Replace the stored page texts of a document
+async function savePages(documentId: number, pages: PageText[]) {
+  await pool.query(
+    `INSERT INTO document_pages (document_id, page_number, text)
+     SELECT $1, * FROM unnest($2::int[], $3::text[])
+     ON CONFLICT (document_id, page_number) DO UPDATE SET text = EXCLUDED.text`,
+    [documentId, pages.map(page => page.num), pages.map(page => page.text)]
+  );
+  await pool.query('DELETE FROM document_pages WHERE document_id = $1 AND page_number <> ALL($2::int[])', [documentId, pages.map(page => page.num)]);
+}
+
+// Helper: Extract and store the page texts of a document indexed before they were stored.
+// Returns the pages, or null when they are stored already or there is no PDF to extract from.
+async function backfillPages(documentId: number): Promise<PageText[] | null> {
+  const { rows: [document] } = await pool.query(
+    `SELECT content, EXISTS (SELECT 1 FROM document_pages WHERE document_id = $1) AS has_pages FROM documents WHERE id = $1`,
+    [documentId]
+  );
+  if (!document || document.has_pages || !document.content) return null;
+  const { pages } = await extractPages(document.content);
+  await savePages(documentId, pages);
+  return pages;
+}
+
+// Extracted text of one page, or null when the document has no such page. Documents indexed
+// before page texts were stored get them extracted from the stored PDF on first request.
+export async function getPageText(documentId: number, pageNumber: number): Promise<string | null> {
+  const { rows } = await pool.query('SELECT text FROM document_pages WHERE document_id = $1 AND page_number = $2', [documentId, pageNumber]);
+  if (rows.length > 0) return rows[0].text;
+  const pages = await backfillPages(documentId);
+  return pages?.find(page => page.num === pageNumber)?.text ?? null;
+}
+
+// Extracted text of every page, in page order
+export async function getPages(documentId: number): Promise<PageText[]> {
+  const pages = await backfillPages(documentId);
+  if (pages) return pages;
+  const { rows } = await pool.query('SELECT page_number, text FROM document_pages WHERE document_id = $1 ORDER BY page_number', [documentId]);
+  return rows.map(row => ({ num: row.page_number, text: row.text }));
+}
+
+// Drop the chunks and summary of a document and store new index settings, ready for indexDocument
+export async function resetIndex(documentId: number, chunking: ChunkingConfig, provider: ProviderName, embeddingModel: string) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('DELETE FROM pdf_chunks WHERE document_id = $1', [documentId]);
+    await client.query(
+      `UPDATE documents
+       SET chunking_config = $2, embedding_provider = $3, embedding_model = $4, status = 'queued', chunk_total = NULL,
+           summary = NULL, section_summaries = NULL, suggested_questions = NULL
+       WHERE id = $1`,
+      [documentId, JSON.stringify(chunking), provider, embeddingModel]
+    );
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+type PendingChunk = { chunk: TextChunk, index: number, hash: string };
+
+// Cached embeddings of the current workspace for the given chunk hashes, keyed by hash
+async function loadCachedEmbeddings(hashes: string[], options: EmbeddingOptions): Promise<Map<string, number[]>> {
+  if (hashes.length === 0) return new Map();
+  const { rows } = await pool.query(
+    `SELECT chunk_hash, embedding::text AS embedding FROM embedding_cache
+     WHERE embedding_provider = $1 AND embedding_model = $2 AND chunk_hash = ANY($3::text[])`,
+    [options.provider.name, options.embeddingModel, hashes]
+  );
+  return new Map(rows.map(row => [row.chunk_hash, JSON.parse(row.embedding)]));
+}
+
+// Insert one batch of embedded chunks atomically, caching the embeddings that were newly computed
+async function insertBatch(
+  documentId: number,
+  filename: string,
+  batch: PendingChunk[],
+  embeddings: number[][],
+  options: EmbeddingOptions,
+  fresh: Set<string>
+) {
+  for (const dim of new Set(embeddings.map(e => e.length))) {
+    await ensureVectorIndex(dim);
+  }
+
+  const params: unknown[] = [];
+  const values = batch.map(({ chunk, index, hash }, i) => {
+    const base = params.length;
+    params.push(
+      documentId, filename, index,
+      chunk.startPage, chunk.endPage, chunk.startOffset, chunk.endOffset,
+      chunk.type, chunk.sectionPath ?? null, chunk.text, hash, toVectorLiteral(embeddings[i]), embeddings[i].length,
+    );
+    return `($${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6}, $${base + 7}, $${base + 8}, $${base + 9}, $${base + 10}, $${base + 11}, $${base + 12}::vector, $${base + 13})`;
+  });
+
+  const cacheParams: unknown[] = [options.provider.name, options.embeddingModel];
+  const cacheValues: string[] = [];
+  batch.forEach(({ hash }, i) => {
+    if (!fresh.has(hash)) return;
+    const base = cacheParams.length;
+    cacheParams.push(hash, toVectorLiteral(embeddings[i]), embeddings[i].length);
+    cacheValues.push(`($${base + 1}, $1, $2, $${base + 2}::vector, $${base + 3})`);
+  });
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(
+      `INSERT INTO pdf_chunks (document_id, filename, chunk_index, page_number, end_page_number, start_offset, end_offset, chunk_type, section_path, text, content_hash, embedding, embedding_dim)
+       VALUES ${values.join(', ')}
+       ON CONFLICT (document_id, chunk_index) DO NOTHING`,
+      params
+    );
+    if (cacheValues.length > 0) {
+      await client.query(
+        `INSERT INTO embedding_cache (chunk_hash, embedding_provider, embedding_model, embedding, embedding_dim)
+         VALUES ${cacheValues.join(', ')}
+         ON CONFLICT (workspace_id, chunk_hash, embedding_provider, embedding_model) DO NOTHING`,
+        cacheParams
+      );
+    }
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Embed and store the chunks of a document that are not committed yet.
+// Chunks are identified by their index, so an interrupted run resumes where it stopped;
+// chunks whose text was embedded before with the same model reuse the cached embedding.
+async function indexChunks(
+  documentId: number,
+  filename: string,
+  chunks: TextChunk[],
+  options: EmbeddingOptions,
+  onProgress?: (progress: IndexingProgress) => void
+) {
+  const { rows } = await pool.query('SELECT chunk_index FROM pdf_chunks WHERE document_id = $1', [documentId]);
+  const committed = new Set(rows.map(row => row.chunk_index));
+  const pending: PendingChunk[] = chunks
+    .map((chunk, index) => ({ chunk, index, hash: contentHash(chunk.text) }))
+    .filter(({ index }) => !committed.has(index));
+  const cache = await loadCachedEmbeddings([...new Set(pending.map(p => p.hash))], options);
+
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const batches: typeof pending[] = [];
+  for (let i = 0; i < pending.length; i += batchSize) {
+    batches.push(pending.slice(i, i + batchSize));
+  }
+
+  const resumed = chunks.length - pending.length;
+  let done = resumed;
+  let reused = 0;
+  let embedded = 0;
+  onProgress?.({ done, total: chunks.length, resumed, reused, embedded });
+
+  // Workers pull batches off a shared queue; after the first failure no new batch is started
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    while (!failed && next < batches.length) {
+      const batch = batches[next++];
+      try {
+        options.signal?.throwIfAborted();
+        // Only embed texts missing from the cache; identical texts within the batch are embedded once
+        const missing = [...new Set(batch.filter(({ hash }) => !cache.has(hash)).map(({ hash }) => hash))];
+        const texts = missing.map(hash => batch.find(p => p.hash === hash)!.chunk.text);
+        const computed = texts.length > 0
+          ? await withRetry(() => options.provider.embed(texts, options.embeddingModel))
+          : [];
+        missing.forEach((hash, i) => cache.set(hash, computed[i]));
+
+        await insertBatch(documentId, filename, batch, batch.map(({ hash }) => cache.get(hash)!), options, new Set(missing));
+        embedded += missing.length;
+        reused += batch.length - missing.length;
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+      done += batch.length;
+      onProgress?.({ done, total: chunks.length, resumed, reused, embedded });
+    }
+  };
+
+  const concurrency = Math.min(options.concurrency ?? DEFAULT_CONCURRENCY, batches.length);
+  const results = await Promise.allSettled(Array.from({ length: concurrency }, worker));
+  const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+  if (failure) throw failure.reason;
+
+  return { indexed: pending.length, resumed, reused, embedded };
+}
+
+// Index the chunks of a document, tracking its status so failed runs can be resumed
+export async function runIndexing(
+  documentId: number,
+  filename: string,
+  chunks: TextChunk[],
+  options: EmbeddingOptions,
+  onProgress?: (progress: IndexingProgress) => void
+) {
+  await pool.query(`UPDATE documents SET status = 'indexing', chunk_total = $2 WHERE id = $1`, [documentId, chunks.length]);
+  try {
+    const result = await indexChunks(documentId, filename, chunks, options, onProgress);
+    await pool.query(`UPDATE documents SET status = 'ready' WHERE id = $1`, [documentId]);
+    return result;
+  } catch (error) {
+    await pool.query(`UPDATE documents SET status = 'failed' WHERE id = $1`, [documentId]).catch(() => {});
+    throw error;
+  }
+}
+
+// Index a stored document from its PDF and chunking configuration, recording the structure found
+// in the PDF. Chunks committed by an earlier, interrupted run are kept, so this both starts and resumes.
+export async function indexDocument(
+  documentId: number,
+  provider: ModelProvider,
+  onProgress?: (progress: IndexingProgress) => void,
+  signal?: AbortSignal
+) {
+  const { rows } = await pool.query(
+    'SELECT filename, embedding_provider, embedding_model, chunking_config, content FROM documents WHERE id = $1',
+    [documentId]
+  );
+  if (rows.length === 0) throw new Error('Document not found');
+  const document = rows[0];
+  if (!document.content) throw new Error('The original PDF of this document is not stored, so it cannot be indexed again.');
+  if (document.embedding_provider !== provider.name) {
+    throw new Error(`This document was indexed with the ${document.embedding_provider} provider; select it to resume.`);
+  }
+
+  const extracted = await extractPages(document.content);
+  const chunks = buildChunks(extracted, (document.chunking_config as ChunkingConfig | null) ?? undefined);
+  await pool.query(
+    `UPDATE documents SET page_count = $2, metadata = $3, outline = $4 WHERE id = $1`,
+    [documentId, extracted.pageCount, JSON.stringify(extracted.metadata), JSON.stringify(extracted.headings)]
+  );
+  await savePages(documentId, extracted.pages);
+  // Chunks must keep the document's original embedding model to stay comparable
+  const result = await runIndexing(documentId, document.filename, chunks, { provider, embeddingModel: document.embedding_model, signal }, onProgress);
+  return { ...result, pageCount: extracted.pageCount, chunkTotal: chunks.length };
+}
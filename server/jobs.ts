@@ -0,0 +1,293 @@
+import { pool, runInWorkspace } from './db.ts';
+import { indexDocument, type IndexingProgress } from './indexer.ts';
+import { createProvider, parseProviderConfig, type ProviderConfig, type ProviderName } from './providers/index.ts';
+import { summarizeDocument } from './summarizer.ts';
+
+// Background indexing. Uploads and resumes enqueue a job; a worker in the server process claims
+// queued jobs one at a time and indexes their document. Events of a running job are published to
+// live listeners (GET /api/jobs/:id?stream=true), and the latest progress and the final event are
+// stored with the job, so clients can poll or reconnect, and a restart picks the queue back up.
+
+export const JOB_STATUSES = ['queued', 'running', 'completed', 'failed', 'cancelled'] as const;
+export type JobStatus = typeof JOB_STATUSES[number];
+
+// What the worker needs to run a job. API keys are not stored (see apiKeys).
+type JobParams = {
+  provider: ProviderName;
+  baseUrl?: string;
+  // Summarizes the document after indexing when set
+  chatModel: string | null;
+};
+
+// An NDJSON event of an indexing run, as sent by the old streaming upload
+export type JobEvent = { status: string, [key: string]: unknown };
+
+export type Job = {
+  id: number;
+  documentId: number;
+  filename: string;
+  status: JobStatus;
+  // Latest progress or summarizing event
+  progress: JobEvent | null;
+  // Final event: complete, error or cancelled
+  result: JobEvent | null;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+};
+
+// API keys entered in the browser, by job id. They only live in memory, so jobs continued after
+// a restart fall back to the keys in the server environment.
+const apiKeys = new Map<number, string>();
+const listeners = new Map<number, Set<(event: JobEvent) => void>>();
+const controllers = new Map<number, AbortController>();
+
+const JOB_COLUMNS = `j.id, j.document_id, d.filename, j.status, j.progress, j.result, j.error, j.created_at, j.started_at, j.finished_at`;
+
+function toJob(row: any): Job {
+  return {
+    id: row.id,
+    documentId: row.document_id,
+    filename: row.filename,
+    status: row.status,
+    progress: row.progress ?? null,
+    result: row.result ?? null,
+    error: row.error ?? null,
+    createdAt: row.created_at,
+    startedAt: row.started_at ?? null,
+    finishedAt: row.finished_at ?? null,
+  };
+}
+
+export function isFinished(status: JobStatus): boolean {
+  return status === 'completed' || status === 'failed' || status === 'cancelled';
+}
+
+// Helper: Whether an event ends a job's event stream
+export function isFinalEvent(event: JobEvent): boolean {
+  return event.status === 'complete' || event.status === 'error' || event.status === 'cancelled';
+}
+
+// Helper: NDJSON progress event for an indexing run
+function toProgressEvent({ done, total, resumed, reused, embedded }: IndexingProgress): JobEvent {
+  const progress = total > 0 ? Math.round((done / total) * 100) : 100;
+  return { status: 'progress', progress, current: done, total, resumed, reused, embedded };
+}
+
+export async function getJob(id: number): Promise<Job | null> {
+  const { rows } = await pool.query(`SELECT ${JOB_COLUMNS} FROM jobs j JOIN documents d ON d.id = j.document_id WHERE j.id = $1`, [id]);
+  return rows.length > 0 ? toJob(rows[0]) : null;
+}
+
+// Most recent jobs first, optionally only those with the given statuses
+export async function listJobs(statuses: JobStatus[] | null, limit: number): Promise<Job[]> {
+  const { rows } = await pool.query(
+    `SELECT ${JOB_COLUMNS} FROM jobs j JOIN documents d ON d.id = j.document_id
+     WHERE $1::text[] IS NULL OR j.status = ANY($1::text[])
+     ORDER BY j.id DESC
+     LIMIT $2`,
+    [statuses, limit]
+  );
+  return rows.map(toJob);
+}
+
+// Queued or running jobs of a document, newest first
+async function activeJobIds(documentId: number): Promise<number[]> {
+  const { rows } = await pool.query(
+    `SELECT id FROM jobs WHERE document_id = $1 AND status IN ('queued', 'running') ORDER BY id DESC`,
+    [documentId]
+  );
+  return rows.map(row => row.id);
+}
+
+export async function hasActiveJob(documentId: number): Promise<boolean> {
+  return (await activeJobIds(documentId)).length > 0;
+}
+
+// Queue a document for indexing. A document already queued or being indexed keeps its job; a
+// job that has not started yet takes the API key of the latest request for the same provider.
+export async function enqueueIndexing(documentId: number, config: ProviderConfig, chatModel: string | null): Promise<Job> {
+  const [activeId] = await activeJobIds(documentId);
+  if (activeId !== undefined) {
+    const { rows: [active] } = await pool.query(`SELECT status, params FROM jobs WHERE id = $1`, [activeId]);
+    const params: JobParams | undefined = active?.params;
+    if (config.apiKey && active?.status === 'queued' && params?.provider === config.provider && params.baseUrl === config.baseUrl) {
+      apiKeys.set(activeId, config.apiKey);
+    }
+    return (await getJob(activeId))!;
+  }
+
+  const params: JobParams = { provider: config.provider, baseUrl: config.baseUrl, chatModel };
+  const { rows: [job] } = await pool.query(
+    `INSERT INTO jobs (document_id, params) VALUES ($1, $2) RETURNING id`,
+    [documentId, JSON.stringify(params)]
+  );
+  await pool.query(`UPDATE documents SET status = 'queued' WHERE id = $1`, [documentId]);
+  if (config.apiKey) apiKeys.set(job.id, config.apiKey);
+
+  void runQueuedJobs();
+  return (await getJob(job.id))!;
+}
+
+// Cancel a queued or running job. A running job stops before its next batch; the chunks it
+// committed are kept, so the document can be resumed later.
+export async function cancelJob(id: number): Promise<Job | null> {
+  const result: JobEvent = { status: 'cancelled', message: 'Indexing was cancelled.' };
+  const { rows } = await pool.query(
+    `UPDATE jobs SET status = 'cancelled', finished_at = NOW(), result = $2::jsonb || jsonb_build_object('documentId', document_id)
+     WHERE id = $1 AND status IN ('queued', 'running')
+     RETURNING document_id`,
+    [id, JSON.stringify(result)]
+  );
+  if (rows.length === 0) return getJob(id);
+
+  const controller = controllers.get(id);
+  if (controller) {
+    controller.abort();
+  } else {
+    // Never started: nothing is indexed yet, but the document can still be resumed
+    await pool.query(`UPDATE documents SET status = 'failed' WHERE id = $1 AND status = 'queued'`, [rows[0].document_id]);
+    apiKeys.delete(id);
+    publish(id, { ...result, documentId: rows[0].document_id });
+  }
+  return getJob(id);
+}
+
+// Cancel the unfinished jobs of a document, e.g. before it is deleted
+export async function cancelDocumentJobs(documentId: number) {
+  for (const id of await activeJobIds(documentId)) {
+    await cancelJob(id);
+  }
+}
+
+// Listen to the events of a job; returns the function that stops listening
+export function subscribe(id: number, listener: (event: JobEvent) => void): () => void {
+  if (!listeners.has(id)) listeners.set(id, new Set());
+  listeners.get(id)!.add(listener);
+  return () => {
+    listeners.get(id)?.delete(listener);
+    if (listeners.get(id)?.size === 0) listeners.delete(id);
+  };
+}
+
+function publish(id: number, event: JobEvent) {
+  for (const listener of listeners.get(id) ?? []) listener(event);
+}
+
+type ClaimedJob = { id: number, document_id: number, workspace_id: number, params: JobParams };
+
+// Claim the oldest queued job of any workspace; SKIP LOCKED keeps two workers from taking the same one
+async function claimNextJob(): Promise<ClaimedJob | null> {
+  const { rows } = await runInWorkspace('*', () => pool.query(`
+    UPDATE jobs SET status = 'running', started_at = NOW()
+    WHERE id = (SELECT id FROM jobs WHERE status = 'queued' ORDER BY id FOR UPDATE SKIP LOCKED LIMIT 1)
+    RETURNING id, document_id, params, (SELECT workspace_id FROM documents WHERE id = jobs.document_id) AS workspace_id
+  `));
+  return rows[0] ?? null;
+}
+
+async function runJob(job: ClaimedJob) {
+  const documentId = job.document_id;
+  const controller = new AbortController();
+  controllers.set(job.id, controller);
+
+  // Progress is saved in order, without holding up the run
+  let saving = Promise.resolve();
+  const report = (event: JobEvent) => {
+    publish(job.id, event);
+    saving = saving
+      .then(() => pool.query(`UPDATE jobs SET progress = $2 WHERE id = $1`, [job.id, JSON.stringify(event)]))
+      .then(() => {}, error => console.warn('Failed to save job progress:', error.message));
+  };
+  // Only a job still marked as running is finished here; a cancelled one already has its result
+  const finish = async (status: JobStatus, event: JobEvent, error: string | null = null) => {
+    await saving;
+    const { rowCount } = await pool.query(
+      `UPDATE jobs SET status = $2, result = $3, error = $4, finished_at = NOW() WHERE id = $1 AND status = 'running'`,
+      [job.id, status, JSON.stringify(event), error]
+    );
+    publish(job.id, rowCount ? event : { status: 'cancelled', message: 'Indexing was cancelled.', documentId });
+  };
+
+  try {
+    const provider = createProvider(parseProviderConfig({ ...job.params, apiKey: apiKeys.get(job.id) }));
+
+    report({ status: 'parsing', message: 'Extracting text from PDF...' });
+    const { indexed, resumed, reused, embedded, chunkTotal } = await indexDocument(
+      documentId,
+      provider,
+      progress => report(toProgressEvent(progress)),
+      controller.signal
+    );
+
+    // A failed summary only costs the summary, the document stays indexed
+    let summary = null;
+    if (job.params.chatModel && indexed + resumed > 0) {
+      try {
+        summary = await summarizeDocument(documentId, { provider, chatModel: job.params.chatModel, signal: controller.signal }, ({ done, total }) => {
+          report({ status: 'summarizing', current: done, total });
+        });
+      } catch (error: any) {
+        if (controller.signal.aborted) throw error;
+        console.warn('Summarization failed:', error);
+        publish(job.id, { status: 'summary_error', error: error.message || 'Failed to summarize document' });
+      }
+    }
+
+    const message = chunkTotal === 0
+      ? 'No text found in PDF.'
+      : `Indexed ${indexed} chunks successfully (${resumed} already done, ${reused} reused from cache, ${embedded} newly embedded).`;
+    await finish('completed', {
+      status: 'complete',
+      message,
+      documentId,
+      resumed,
+      reused,
+      embedded,
+      summary: summary?.summary ?? null,
+      suggestedQuestions: summary?.suggestedQuestions ?? [],
+    });
+  } catch (error: any) {
+    if (controller.signal.aborted) {
+      await saving;
+      publish(job.id, { status: 'cancelled', message: 'Indexing was cancelled.', documentId });
+    } else {
+      console.error('Indexing Job Error:', error);
+      const message = error.message || 'Failed to process PDF';
+      // Committed chunks are kept so the document can be resumed instead of starting over
+      await finish('failed', { status: 'error', error: message, documentId, resumable: true }, message);
+    }
+  } finally {
+    controllers.delete(job.id);
+    apiKeys.delete(job.id);
+  }
+}
+
+let working = false;
+let wakeUp = false;
+
+// Run queued jobs one after another until the queue is empty. Called on startup and whenever a
+// job is enqueued; a call while the worker is busy makes it check the queue once more.
+export async function runQueuedJobs() {
+  if (working) {
+    wakeUp = true;
+    return;
+  }
+  working = true;
+  try {
+    do {
+      wakeUp = false;
+      let job;
+      while ((job = await claimNextJob())) {
+        // The job runs as its document's workspace, like the request that queued it
+        const claimed = job;
+        await runInWorkspace(claimed.workspace_id, () => runJob(claimed));
+      }
+    } while (wakeUp);
+  } catch (error) {
+    console.error('Job worker error:', error);
+  } finally {
+    working = false;
+  }
+}
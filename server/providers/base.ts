@@ -0,0 +1,161 @@
+// Shared types and helpers for model providers.
+//
+// A provider turns text into embeddings and runs chat completions for one backend (Ollama, an
+// OpenAI-compatible server, Gemini). Route handlers and the indexer only talk to ModelProvider,
+// so tests and tools can pass in any object with the same shape.
+
+export const PROVIDER_NAMES = ['ollama', 'openai', 'gemini'] as const;
+export type ProviderName = typeof PROVIDER_NAMES[number];
+
+export type ChatMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+};
+
+// Function the model may call, with a JSON Schema of its arguments
+export type ToolDefinition = {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+};
+
+export type ToolCall = { name: string, arguments: Record<string, unknown> };
+
+// Messages of a conversation with tools: assistant turns may call tools, whose results follow as
+// tool messages
+export type ToolMessage =
+  | ChatMessage
+  | { role: 'assistant', content: string, toolCalls: ToolCall[] }
+  | { role: 'tool', toolName: string, content: string };
+
+export type ChatOptions = {
+  signal?: AbortSignal;
+  temperature?: number;
+  // JSON Schema the answer must follow (structured output); the answer is then a JSON document
+  format?: Record<string, unknown>;
+};
+
+export interface ModelProvider {
+  readonly name: ProviderName;
+  // One embedding per text, in the same order
+  embed(texts: string[], model: string): Promise<number[][]>;
+  // Answer tokens as they are generated
+  chatStream(messages: ChatMessage[], model: string, options?: ChatOptions): AsyncGenerator<string>;
+  // Whole answer at once
+  chat(messages: ChatMessage[], model: string, options?: ChatOptions): Promise<string>;
+  // One turn with tools: the answer, or the tool calls the model wants answered first. Only
+  // providers with tool calling implement it.
+  chatWithTools?(messages: ToolMessage[], tools: ToolDefinition[], model: string, options?: ChatOptions): Promise<{ content: string, toolCalls: ToolCall[] }>;
+}
+
+// Error from a provider call; status is undefined when the server could not be reached
+export class ProviderError extends Error {
+  constructor(message: string, public status?: number, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'ProviderError';
+  }
+}
+
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EAI_AGAIN', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'];
+
+// Helper: Whether an error, or one it was caused by, is a failed connection
+function isNetworkError(error: any): boolean {
+  for (let cause = error; cause; cause = cause.cause) {
+    if (NETWORK_ERROR_CODES.includes(cause.code) || cause.message === 'fetch failed') return true;
+  }
+  return false;
+}
+
+// Helper: Whether a failed call is worth retrying: network failures, rate limits and server
+// errors. Anything else, such as a malformed response, fails the same way when retried.
+function isTransientError(error: any): boolean {
+  if (error?.name === 'AbortError') return false;
+  if (error instanceof ProviderError && error.status !== undefined) {
+    return error.status === 429 || error.status >= 500;
+  }
+  return isNetworkError(error);
+}
+
+// Helper: Retry an async call with exponential backoff on transient errors
+export async function withRetry<T>(fn: () => Promise<T>, retries = 3, baseDelayMs = 500): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= retries || !isTransientError(error)) throw error;
+      const delay = baseDelayMs * 2 ** attempt * (0.5 + Math.random() / 2);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+// Helper: Fetch a provider URL, turning HTTP and connection failures into ProviderError
+async function request(url: string, init: RequestInit): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error: any) {
+    if (error.name === 'AbortError') throw error;
+    throw new ProviderError(`Could not reach ${new URL(url).origin}: ${error.message}`, undefined, { cause: error });
+  }
+
+  if (!response.ok) {
+    let errorMsg = response.statusText;
+    try {
+      const errorData = JSON.parse(await response.text());
+      errorMsg = (typeof errorData.error === 'string' ? errorData.error : errorData.error?.message) || errorMsg;
+    } catch (e) {
+      // Ignore non-JSON error bodies
+    }
+    throw new ProviderError(errorMsg, response.status);
+  }
+  return response;
+}
+
+// Helper: POST JSON, turning HTTP and connection failures into ProviderError
+export function postJson(
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+  signal?: AbortSignal
+): Promise<Response> {
+  return request(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+}
+
+// Helper: GET a JSON body, with the same error handling as postJson
+export async function getJson(url: string, headers: Record<string, string> = {}, signal?: AbortSignal): Promise<any> {
+  const response = await request(url, { headers, signal });
+  return response.json();
+}
+
+// Helper: Iterate over the non-empty lines of a streamed response body
+export async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (line.trim()) yield line;
+    }
+  }
+  if (buffer.trim()) yield buffer;
+}
+
+// Helper: Strip the trailing slash of a base URL
+export function trimUrl(url: string): string {
+  return url.replace(/\/$/, '');
+}
@@ -0,0 +1,71 @@
+import { GoogleGenAI, type Content } from '@google/genai';
+import { ProviderError, type ChatMessage, type ChatOptions, type ModelProvider } from './base.ts';
+
+// Gemini API through @google/genai. System messages become the system instruction and
+// assistant turns use Gemini's "model" role.
+function toGeminiRequest(messages: ChatMessage[]) {
+  const systemInstruction = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+  const contents: Content[] = messages
+    .filter(m => m.role !== 'system')
+    .map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] }));
+  return { systemInstruction: systemInstruction || undefined, contents };
+}
+
+// Helper: Structured output settings for a JSON Schema
+function jsonConfig(options: ChatOptions) {
+  return options.format ? { responseMimeType: 'application/json', responseJsonSchema: options.format } : {};
+}
+
+// Helper: Map SDK errors (which carry an HTTP status) to ProviderError so retries can tell them apart
+function toProviderError(error: any): Error {
+  if (error?.name === 'AbortError' || error instanceof ProviderError) return error;
+  return new ProviderError(`Gemini error: ${error?.message ?? error}`, typeof error?.status === 'number' ? error.status : undefined, { cause: error });
+}
+
+export function createGeminiProvider(apiKey: string): ModelProvider {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: 'gemini',
+    async embed(texts, model) {
+      try {
+        const response = await ai.models.embedContent({ model, contents: texts });
+        const embeddings = response.embeddings?.map(e => e.values ?? []) ?? [];
+        if (embeddings.length !== texts.length) {
+          throw new ProviderError(`Expected ${texts.length} embeddings, got ${embeddings.length}`);
+        }
+        return embeddings;
+      } catch (error) {
+        throw toProviderError(error);
+      }
+    },
+    async *chatStream(messages, model, options: ChatOptions = {}) {
+      const { systemInstruction, contents } = toGeminiRequest(messages);
+      try {
+        const stream = await ai.models.generateContentStream({
+          model,
+          contents,
+          config: { systemInstruction, temperature: options.temperature, abortSignal: options.signal, ...jsonConfig(options) },
+        });
+        for await (const chunk of stream) {
+          if (chunk.text) yield chunk.text;
+        }
+      } catch (error) {
+        throw toProviderError(error);
+      }
+    },
+    async chat(messages, model, options: ChatOptions = {}) {
+      const { systemInstruction, contents } = toGeminiRequest(messages);
+      try {
+        const response = await ai.models.generateContent({
+          model,
+          contents,
+          config: { systemInstruction, temperature: options.temperature, abortSignal: options.signal, ...jsonConfig(options) },
+        });
+        return response.text ?? '';
+      } catch (error) {
+        throw toProviderError(error);
+      }
+    },
+  };
+}
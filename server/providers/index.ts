@@ -0,0 +1,59 @@
+import { PROVIDER_NAMES, type ModelProvider, type ProviderName } from './base.ts';
+import { createGeminiProvider } from './gemini.ts';
+import { createOllamaProvider } from './ollama.ts';
+import { createOpenAIProvider } from './openai.ts';
+
+export * from './base.ts';
+export { listOllamaModels, showOllamaModel, type OllamaModel, type OllamaModelDetails } from './ollama.ts';
+
+export type ProviderConfig = {
+  provider: ProviderName;
+  baseUrl?: string;
+  apiKey?: string;
+};
+
+// Helper: Compare base URLs regardless of a trailing slash
+function sameUrl(a: string, b: string): boolean {
+  return a.replace(/\/+$/, '') === b.replace(/\/+$/, '');
+}
+
+// Read the provider settings of a request. `ollamaUrl` is still accepted from older clients.
+// API keys fall back to the server environment so they don't have to live in the browser, but
+// only for endpoints the server configures: OPENAI_API_KEY is sent to OPENAI_BASE_URL alone, so a
+// request cannot point it at a server of its own. Gemini's endpoint is fixed by the SDK.
+export function parseProviderConfig(body: any): ProviderConfig {
+  const provider = body.provider || 'ollama';
+  if (!PROVIDER_NAMES.includes(provider)) {
+    throw new Error(`provider must be one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+
+  const serverOpenAIUrl = process.env.OPENAI_BASE_URL || undefined;
+  const baseUrl = body.baseUrl || body.ollamaUrl || (provider === 'openai' ? serverOpenAIUrl : undefined);
+  if (provider === 'ollama' && !baseUrl) {
+    throw new Error('Ollama URL is required.');
+  }
+  if (provider === 'openai' && !baseUrl) {
+    throw new Error('Base URL of the OpenAI-compatible server is required.');
+  }
+
+  const openAIKey = serverOpenAIUrl && sameUrl(baseUrl, serverOpenAIUrl) ? process.env.OPENAI_API_KEY : undefined;
+  const apiKey = body.apiKey
+    || (provider === 'gemini' ? process.env.GEMINI_API_KEY : undefined)
+    || (provider === 'openai' ? openAIKey : undefined);
+  if (provider === 'gemini' && !apiKey) {
+    throw new Error('A Gemini API key is required (set GEMINI_API_KEY or enter it in the settings).');
+  }
+
+  return { provider, baseUrl, apiKey };
+}
+
+export function createProvider(config: ProviderConfig): ModelProvider {
+  switch (config.provider) {
+    case 'ollama':
+      return createOllamaProvider(config.baseUrl!);
+    case 'openai':
+      return createOpenAIProvider(config.baseUrl!, config.apiKey);
+    case 'gemini':
+      return createGeminiProvider(config.apiKey!);
+  }
+}
@@ -0,0 +1,186 @@
+import {
+  getJson, postJson, readLines, trimUrl, ProviderError, type ChatMessage, type ChatOptions, type ModelProvider, type ToolCall, type ToolDefinition,
+  type ToolMessage,
+} from './base.ts';
+
+function embeddingError(error: any, model: string): Error {
+  if (!(error instanceof ProviderError) || error.status === undefined) return error;
+  return new ProviderError(
+    `Ollama embedding error: ${error.message}. Certifique-se de que o modelo '${model}' está instalado (rode 'ollama pull ${model}').`,
+    error.status
+  );
+}
+
+// Helper: Get Embeddings from Ollama
+async function getOllamaEmbedding(text: string, ollamaUrl: string, model: string): Promise<number[]> {
+  try {
+    const response = await postJson(`${trimUrl(ollamaUrl)}/api/embeddings`, { model, prompt: text });
+    const data = await response.json();
+    return data.embedding;
+  } catch (error) {
+    throw embeddingError(error, model);
+  }
+}
+
+// Helper: Embed several texts in one request with the batch /api/embed endpoint,
+// falling back to one /api/embeddings call per text on Ollama versions without it
+async function getOllamaEmbeddings(texts: string[], ollamaUrl: string, model: string): Promise<number[][]> {
+  try {
+    const response = await postJson(`${trimUrl(ollamaUrl)}/api/embed`, { model, input: texts });
+    const data = await response.json();
+    if (!Array.isArray(data.embeddings) || data.embeddings.length !== texts.length) {
+      throw new ProviderError(`Expected ${texts.length} embeddings, got ${data.embeddings?.length ?? 0}`);
+    }
+    return data.embeddings;
+  } catch (error: any) {
+    // Older servers answer 404 for unknown routes; a missing model also gives 404 but mentions the model
+    if (error instanceof ProviderError && error.status === 404 && !/model/i.test(error.message)) {
+      const embeddings: number[][] = [];
+      for (const text of texts) {
+        embeddings.push(await getOllamaEmbedding(text, ollamaUrl, model));
+      }
+      return embeddings;
+    }
+    throw embeddingError(error, model);
+  }
+}
+
+// Helper: Stream chat tokens from Ollama
+async function* streamOllamaChat(
+  messages: ChatMessage[],
+  ollamaUrl: string,
+  model: string,
+  options: ChatOptions = {}
+): AsyncGenerator<string> {
+  let response: Response;
+  try {
+    response = await postJson(
+      `${trimUrl(ollamaUrl)}/api/chat`,
+      { model, messages, stream: true, format: options.format, options: { temperature: options.temperature } },
+      {},
+      options.signal
+    );
+  } catch (error: any) {
+    if (error instanceof ProviderError) throw new ProviderError(`Ollama chat error: ${error.message}`, error.status, { cause: error });
+    throw error;
+  }
+
+  for await (const line of readLines(response)) {
+    const data = JSON.parse(line);
+    if (data.error) throw new ProviderError(`Ollama chat error: ${data.error}`);
+    if (data.message?.content) yield data.message.content;
+    if (data.done) return;
+  }
+}
+
+// Helper: One chat turn with the tools API. Tool calls come back whole, so the turn is not streamed.
+async function ollamaToolChat(
+  messages: ToolMessage[],
+  tools: ToolDefinition[],
+  ollamaUrl: string,
+  model: string,
+  options: ChatOptions = {}
+): Promise<{ content: string, toolCalls: ToolCall[] }> {
+  const body = {
+    model,
+    stream: false,
+    messages: messages.map(m =>
+      'toolCalls' in m ? { role: m.role, content: m.content, tool_calls: m.toolCalls.map(call => ({ function: call })) }
+        : 'toolName' in m ? { role: m.role, content: m.content, tool_name: m.toolName }
+          : m
+    ),
+    tools: tools.map(tool => ({ type: 'function', function: tool })),
+    options: { temperature: options.temperature },
+  };
+  let data: any;
+  try {
+    const response = await postJson(`${trimUrl(ollamaUrl)}/api/chat`, body, {}, options.signal);
+    data = await response.json();
+  } catch (error: any) {
+    if (error instanceof ProviderError) throw new ProviderError(`Ollama chat error: ${error.message}`, error.status, { cause: error });
+    throw error;
+  }
+  if (data.error) throw new ProviderError(`Ollama chat error: ${data.error}`);
+  const toolCalls: ToolCall[] = (data.message?.tool_calls ?? []).map((call: any) => {
+    // Some models send the arguments as a JSON string
+    let args = call.function?.arguments ?? {};
+    if (typeof args === 'string') {
+      try {
+        args = JSON.parse(args);
+      } catch {
+        args = {};
+      }
+    }
+    return { name: call.function?.name ?? '', arguments: args };
+  });
+  return { content: data.message?.content ?? '', toolCalls };
+}
+
+// An installed model, as listed by /api/tags
+export type OllamaModel = {
+  name: string;
+  size: number;
+  modifiedAt: string | null;
+  family: string | null;
+  parameterSize: string | null;
+  quantization: string | null;
+};
+
+// Details of one model from /api/show. Capabilities are only reported by newer Ollama versions;
+// older ones leave them empty.
+export type OllamaModelDetails = OllamaModel & {
+  capabilities: string[];
+  contextLength: number | null;
+  // Size of the model's embeddings (its hidden size), which embedding models return as-is
+  embeddingLength: number | null;
+};
+
+function toOllamaModel(name: string, data: any): OllamaModel {
+  return {
+    name,
+    size: data.size ?? 0,
+    modifiedAt: data.modified_at ?? null,
+    family: data.details?.family ?? null,
+    parameterSize: data.details?.parameter_size ?? null,
+    quantization: data.details?.quantization_level ?? null,
+  };
+}
+
+// Models installed on an Ollama server, by name
+export async function listOllamaModels(ollamaUrl: string): Promise<OllamaModel[]> {
+  const data = await getJson(`${trimUrl(ollamaUrl)}/api/tags`);
+  return (data.models ?? [])
+    .map((model: any) => toOllamaModel(model.name ?? model.model, model))
+    .sort((a: OllamaModel, b: OllamaModel) => a.name.localeCompare(b.name));
+}
+
+export async function showOllamaModel(ollamaUrl: string, name: string): Promise<OllamaModelDetails> {
+  // Older servers take the model as `name`
+  const response = await postJson(`${trimUrl(ollamaUrl)}/api/show`, { model: name, name });
+  const data = await response.json();
+  const info: Record<string, unknown> = data.model_info ?? {};
+  const architecture = info['general.architecture'];
+  const numberInfo = (key: string) => typeof info[`${architecture}.${key}`] === 'number' ? info[`${architecture}.${key}`] as number : null;
+  return {
+    ...toOllamaModel(name, data),
+    capabilities: Array.isArray(data.capabilities) ? data.capabilities : [],
+    contextLength: numberInfo('context_length'),
+    embeddingLength: numberInfo('embedding_length'),
+  };
+}
+
+export function createOllamaProvider(ollamaUrl: string): ModelProvider {
+  return {
+    name: 'ollama',
+    embed: (texts, model) => getOllamaEmbeddings(texts, ollamaUrl, model),
+    chatStream: (messages, model, options) => streamOllamaChat(messages, ollamaUrl, model, options),
+    async chat(messages, model, options) {
+      let reply = '';
+      for await (const token of streamOllamaChat(messages, ollamaUrl, model, options)) {
+        reply += token;
+      }
+      return reply;
+    },
+    chatWithTools: (messages, tools, model, options) => ollamaToolChat(messages, tools, ollamaUrl, model, options),
+  };
+}
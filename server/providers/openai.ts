@@ -0,0 +1,67 @@
+import { postJson, readLines, trimUrl, ProviderError, type ChatMessage, type ChatOptions, type ModelProvider } from './base.ts';
+
+// OpenAI-compatible servers (OpenAI, llama.cpp server, vLLM, LM Studio, ...).
+// baseUrl is the API root including the version, e.g. http://localhost:8080/v1
+
+function authHeaders(apiKey?: string): Record<string, string> {
+  return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+}
+
+// Helper: Structured output request for a JSON Schema
+function responseFormat(options: ChatOptions) {
+  return options.format ? { type: 'json_schema', json_schema: { name: 'response', schema: options.format } } : undefined;
+}
+
+async function getEmbeddings(texts: string[], baseUrl: string, model: string, apiKey?: string): Promise<number[][]> {
+  const response = await postJson(`${trimUrl(baseUrl)}/embeddings`, { model, input: texts }, authHeaders(apiKey));
+  const data = await response.json();
+  if (!Array.isArray(data.data) || data.data.length !== texts.length) {
+    throw new ProviderError(`Expected ${texts.length} embeddings, got ${data.data?.length ?? 0}`);
+  }
+  // Results carry their input index and are not guaranteed to be in order
+  return [...data.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+}
+
+async function* streamChat(
+  messages: ChatMessage[],
+  baseUrl: string,
+  model: string,
+  apiKey: string | undefined,
+  options: ChatOptions = {}
+): AsyncGenerator<string> {
+  const response = await postJson(
+    `${trimUrl(baseUrl)}/chat/completions`,
+    { model, messages, stream: true, temperature: options.temperature, response_format: responseFormat(options) },
+    authHeaders(apiKey),
+    options.signal
+  );
+
+  // Server-sent events: one "data: {json}" line per delta, closed by "data: [DONE]"
+  for await (const line of readLines(response)) {
+    if (!line.startsWith('data:')) continue;
+    const payload = line.slice(5).trim();
+    if (payload === '[DONE]') return;
+    const data = JSON.parse(payload);
+    if (data.error) throw new ProviderError(`Chat error: ${data.error.message ?? data.error}`);
+    const token = data.choices?.[0]?.delta?.content;
+    if (token) yield token;
+  }
+}
+
+export function createOpenAIProvider(baseUrl: string, apiKey?: string): ModelProvider {
+  return {
+    name: 'openai',
+    embed: (texts, model) => getEmbeddings(texts, baseUrl, model, apiKey),
+    chatStream: (messages, model, options) => streamChat(messages, baseUrl, model, apiKey, options),
+    async chat(messages, model, options = {}) {
+      const response = await postJson(
+        `${trimUrl(baseUrl)}/chat/completions`,
+        { model, messages, stream: false, temperature: options.temperature, response_format: responseFormat(options) },
+        authHeaders(apiKey),
+        options.signal
+      );
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content ?? '';
+    },
+  };
+}
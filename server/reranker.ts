@@ -0,0 +1,91 @@
+import { postJson, type ModelProvider } from './providers/index.ts';
+
+// Second-stage ranking of retrieved candidates. Either the chat model judges each passage
+// (no extra service needed, but slow), or a cross-encoder server scores query/passage pairs.
+// Both produce scores between 0 and 1, comparable with the relevance threshold.
+
+export const RERANKERS = ['none', 'llm', 'cross-encoder'] as const;
+export type Reranker = typeof RERANKERS[number];
+
+export type RerankOptions = {
+  reranker: Exclude<Reranker, 'none'>;
+  provider: ModelProvider;
+  chatModel: string;
+  // /rerank endpoint of a cross-encoder server (Text Embeddings Inference, Infinity, ...)
+  rerankerUrl: string | null;
+  signal?: AbortSignal;
+};
+
+// Passages per LLM judging prompt, and characters kept of each
+const JUDGE_BATCH_SIZE = 10;
+const JUDGE_PASSAGE_CHARS = 800;
+
+async function judgeBatch(query: string, texts: string[], options: RerankOptions): Promise<number[]> {
+  const passages = texts.map((text, i) => {
+    const passage = text.length > JUDGE_PASSAGE_CHARS ? `${text.slice(0, JUDGE_PASSAGE_CHARS)}…` : text;
+    return `[${i + 1}]\n${passage}`;
+  });
+  const prompt = [
+    'Rate how useful each passage is for answering the question, from 0 (unrelated) to 10 (answers it directly).',
+    'Answer with one line per passage in the form "<passage number>: <score>" and nothing else.',
+    '',
+    `Question: ${query}`,
+    '',
+    passages.join('\n\n'),
+  ].join('\n');
+
+  const response = await options.provider.chat([{ role: 'user', content: prompt }], options.chatModel, {
+    signal: options.signal,
+    temperature: 0,
+  });
+
+  // Passages the model skipped or scored unreadably count as irrelevant
+  const scores = texts.map(() => 0);
+  for (const line of response.split('\n')) {
+    const match = line.match(/^\s*\[?(\d+)\]?\s*[:=\-–]\s*(\d+(?:\.\d+)?)/);
+    if (!match) continue;
+    const index = Number(match[1]) - 1;
+    if (index >= 0 && index < texts.length) scores[index] = Math.min(Number(match[2]), 10) / 10;
+  }
+  return scores;
+}
+
+async function scoreWithCrossEncoder(query: string, texts: string[], options: RerankOptions): Promise<number[]> {
+  if (!options.rerankerUrl) throw new Error('A reranker URL is required for cross-encoder reranking.');
+  // TEI reads `texts`, Cohere-style servers (Infinity, Jina) read `documents`
+  const response = await postJson(options.rerankerUrl, { query, texts, documents: texts, raw_scores: false }, {}, options.signal);
+  const data = await response.json();
+
+  const results: { index: number, score: number }[] = Array.isArray(data)
+    ? data.map((item: any) => ({ index: item.index, score: item.score }))
+    : (data.results ?? []).map((item: any) => ({ index: item.index, score: item.relevance_score ?? item.score }));
+  const scores = texts.map(() => 0);
+  for (const { index, score } of results) {
+    if (index >= 0 && index < texts.length && Number.isFinite(score)) scores[index] = score;
+  }
+  return scores;
+}
+
+// Score every candidate against the query and sort them by that score
+export async function rerankChunks<T extends { text: string }>(
+  query: string,
+  chunks: T[],
+  options: RerankOptions
+): Promise<(T & { rerankScore: number })[]> {
+  if (chunks.length === 0) return [];
+  const texts = chunks.map(chunk => chunk.text);
+
+  let scores: number[];
+  if (options.reranker === 'cross-encoder') {
+    scores = await scoreWithCrossEncoder(query, texts, options);
+  } else {
+    scores = [];
+    for (let i = 0; i < texts.length; i += JUDGE_BATCH_SIZE) {
+      scores.push(...await judgeBatch(query, texts.slice(i, i + JUDGE_BATCH_SIZE), options));
+    }
+  }
+
+  return chunks
+    .map((chunk, i) => ({ ...chunk, rerankScore: scores[i] }))
+    .sort((a, b) => b.rerankScore - a.rerankScore);
+}
@@ -0,0 +1,390 @@
+// Retrieval over the indexed chunks: vector, keyword and hybrid search within a filter, optional
+// reranking of a larger candidate set and a relevance threshold, plus the helpers that turn
+// retrieved chunks into model context and citations.
+
+import type { ChunkType } from './chunker.ts';
+import { pool, toVectorLiteral } from './db.ts';
+import type { ModelProvider } from './providers/index.ts';
+import { RERANKERS, rerankChunks, type Reranker } from './reranker.ts';
+
+export type RetrievedChunk = {
+  id: number;
+  documentId: number;
+  text: string;
+  filename: string;
+  pageNum: number;
+  endPageNum: number;
+  // Character offsets into the text of the first and last page; null for tables
+  startOffset: number | null;
+  endOffset: number | null;
+  chunkType: ChunkType;
+  sectionPath: string | null;
+  // Ranking score of the retrieval mode that produced the chunk
+  score: number;
+  // Cosine similarity to the query, when an embedding of the query is available
+  similarity?: number;
+  // Reranker score between 0 and 1, when the chunk was reranked
+  rerankScore?: number;
+};
+
+export const RETRIEVAL_MODES = ['vector', 'keyword', 'hybrid'] as const;
+export type RetrievalMode = typeof RETRIEVAL_MODES[number];
+
+export type RetrievalOptions = {
+  mode: RetrievalMode;
+  vectorWeight: number;
+  keywordWeight: number;
+  // Reciprocal rank fusion damping constant; 60 is the value from the original RRF paper
+  rrfK: number;
+  // Chunks passed to the model
+  topK: number;
+  // Minimum relevance a chunk needs: its rerank score, else its cosine similarity. 0 disables it.
+  minScore: number;
+  reranker: Reranker;
+  // Candidates retrieved for the reranker to choose the top-k from
+  rerankCandidates: number;
+  rerankerUrl: string | null;
+};
+
+export const DEFAULT_TOP_K = 3;
+const MAX_TOP_K = 50;
+const MAX_RERANK_CANDIDATES = 100;
+
+function toRetrievedChunk(row: any): RetrievedChunk {
+  return {
+    id: row.id,
+    documentId: row.document_id,
+    text: row.text,
+    filename: row.filename,
+    pageNum: row.page_number,
+    endPageNum: row.end_page_number ?? row.page_number,
+    startOffset: row.start_offset ?? null,
+    endOffset: row.end_offset ?? null,
+    chunkType: row.chunk_type,
+    sectionPath: row.section_path ?? null,
+    score: Number(row.score),
+  };
+}
+
+// Provider and model that produced a query embedding; only chunks embedded the same way are comparable
+export type EmbeddingSpace = { provider: string, model: string };
+
+// Which chunks a search may return
+export type SearchFilter = {
+  // null means all documents
+  documentIds: number[] | null;
+  // Section paths; a chunk matches a section or any of its subsections
+  sections: string[];
+  pageFrom: number | null;
+  pageTo: number | null;
+};
+
+// Helper: SQL condition for a search filter over pdf_chunks aliased as c; appends its parameters
+function filterCondition(filter: SearchFilter, params: unknown[]): string {
+  const conditions: string[] = [];
+  if (filter.documentIds) {
+    params.push(filter.documentIds);
+    conditions.push(`c.document_id = ANY($${params.length}::int[])`);
+  }
+  if (filter.sections.length > 0) {
+    params.push(filter.sections);
+    conditions.push(`EXISTS (SELECT 1 FROM unnest($${params.length}::text[]) s WHERE c.section_path = s OR starts_with(c.section_path, s || ' > '))`);
+  }
+  // Chunks spanning several pages match when any of their pages is in range
+  if (filter.pageFrom !== null) {
+    params.push(filter.pageFrom);
+    conditions.push(`COALESCE(c.end_page_number, c.page_number) >= $${params.length}`);
+  }
+  if (filter.pageTo !== null) {
+    params.push(filter.pageTo);
+    conditions.push(`c.page_number <= $${params.length}`);
+  }
+  return conditions.length > 0 ? conditions.join(' AND ') : 'TRUE';
+}
+
+// Helper: Top-k chunks by cosine similarity, computed in Postgres
+async function searchChunks(
+  queryEmbedding: number[],
+  space: EmbeddingSpace,
+  filter: SearchFilter,
+  k: number
+): Promise<RetrievedChunk[]> {
+  const dim = queryEmbedding.length;
+  if (!Number.isInteger(dim) || dim <= 0) return [];
+
+  // The cast and the embedding_dim predicate must match ensureVectorIndex for the HNSW index to be used
+  const params: unknown[] = [toVectorLiteral(queryEmbedding), k, space.provider, space.model];
+  const { rows } = await pool.query(
+    `SELECT c.id, c.document_id, c.text, c.chunk_type, c.section_path, c.page_number, c.end_page_number, c.start_offset, c.end_offset, d.filename,
+            1 - (c.embedding::vector(${dim}) <=> $1::vector(${dim})) AS score
+     FROM pdf_chunks c
+     JOIN documents d ON d.id = c.document_id
+     WHERE c.embedding_dim = ${dim} AND ${filterCondition(filter, params)}
+       AND d.embedding_provider = $3 AND (d.embedding_model IS NULL OR d.embedding_model = $4)
+     ORDER BY c.embedding::vector(${dim}) <=> $1::vector(${dim})
+     LIMIT $2`,
+    params
+  );
+
+  return rows.map(row => ({ ...toRetrievedChunk(row), similarity: Number(row.score) }));
+}
+
+// Helper: Top-k chunks by full-text rank. Terms are OR-ed so a single exact identifier
+// (clause number, part code, acronym) is enough to match.
+async function searchChunksByKeyword(query: string, filter: SearchFilter, k: number): Promise<RetrievedChunk[]> {
+  const terms = query.match(/[\p{L}\p{N}]+(?:[._\/-][\p{L}\p{N}]+)*/gu) || [];
+  if (terms.length === 0) return [];
+  const tsquery = [...new Set(terms.map(t => t.toLowerCase()))].map(t => `'${t}'`).join(' | ');
+
+  const params: unknown[] = [tsquery, k];
+  const { rows } = await pool.query(
+    `SELECT c.id, c.document_id, c.text, c.chunk_type, c.section_path, c.page_number, c.end_page_number, c.start_offset, c.end_offset, d.filename,
+            ts_rank_cd(c.text_search, q, 32) AS score
+     FROM pdf_chunks c
+     JOIN documents d ON d.id = c.document_id,
+          to_tsquery('simple', $1) q
+     WHERE c.text_search @@ q AND ${filterCondition(filter, params)}
+     ORDER BY score DESC
+     LIMIT $2`,
+    params
+  );
+
+  return rows.map(toRetrievedChunk);
+}
+
+// Helper: Weighted reciprocal rank fusion of several rankings
+function fuseRankings(rankings: { chunks: RetrievedChunk[], weight: number }[], rrfK: number): RetrievedChunk[] {
+  const fused = new Map<number, RetrievedChunk>();
+  for (const { chunks, weight } of rankings) {
+    chunks.forEach((chunk, rank) => {
+      const contribution = weight / (rrfK + rank + 1);
+      const existing = fused.get(chunk.id);
+      if (existing) {
+        existing.score += contribution;
+        existing.similarity ??= chunk.similarity;
+      } else {
+        fused.set(chunk.id, { ...chunk, score: contribution });
+      }
+    });
+  }
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
+
+// Helper: Validate the retrieval settings of a chat request
+export function parseRetrievalOptions(body: any): RetrievalOptions {
+  const mode = body.retrievalMode ?? 'hybrid';
+  if (!RETRIEVAL_MODES.includes(mode)) {
+    throw new Error(`retrievalMode must be one of: ${RETRIEVAL_MODES.join(', ')}`);
+  }
+  const reranker = body.reranker || 'none';
+  if (!RERANKERS.includes(reranker)) {
+    throw new Error(`reranker must be one of: ${RERANKERS.join(', ')}`);
+  }
+  const number = (value: unknown, fallback: number, name: string) => {
+    if (value === undefined || value === null || value === '') return fallback;
+    const n = Number(value);
+    if (!Number.isFinite(n) || n < 0) throw new Error(`${name} must be a non-negative number`);
+    return n;
+  };
+  const integer = (value: unknown, fallback: number, min: number, max: number, name: string) => {
+    const n = number(value, fallback, name);
+    if (!Number.isInteger(n) || n < min || n > max) throw new Error(`${name} must be an integer between ${min} and ${max}`);
+    return n;
+  };
+
+  const topK = integer(body.topK, DEFAULT_TOP_K, 1, MAX_TOP_K, 'topK');
+  const minScore = number(body.minScore, 0, 'minScore');
+  if (minScore > 1) throw new Error('minScore must be between 0 and 1');
+  const rerankerUrl = body.rerankerUrl || process.env.RERANKER_URL || null;
+  if (reranker === 'cross-encoder' && !rerankerUrl) {
+    throw new Error('rerankerUrl is required for cross-encoder reranking (or set RERANKER_URL).');
+  }
+
+  return {
+    mode,
+    vectorWeight: number(body.hybridWeights?.vector, 1, 'hybridWeights.vector'),
+    keywordWeight: number(body.hybridWeights?.keyword, 1, 'hybridWeights.keyword'),
+    rrfK: number(body.rrfK, 60, 'rrfK'),
+    topK,
+    minScore,
+    reranker,
+    rerankCandidates: integer(body.rerankCandidates, Math.max(20, topK), topK, MAX_RERANK_CANDIDATES, 'rerankCandidates'),
+    rerankerUrl,
+  };
+}
+
+// Helper: Retrieve the top-k chunks for a query with the requested mode
+export async function retrieveChunks(
+  query: string,
+  queryEmbedding: number[] | null,
+  space: EmbeddingSpace,
+  filter: SearchFilter,
+  k: number,
+  options: RetrievalOptions
+): Promise<RetrievedChunk[]> {
+  if (options.mode === 'vector') {
+    return queryEmbedding ? searchChunks(queryEmbedding, space, filter, k) : [];
+  }
+  if (options.mode === 'keyword') {
+    return searchChunksByKeyword(query, filter, k);
+  }
+
+  // Hybrid: fuse deeper candidate lists so chunks ranked well by only one side can still surface
+  const candidates = Math.max(k * 4, 20);
+  const [vectorChunks, keywordChunks] = await Promise.all([
+    queryEmbedding ? searchChunks(queryEmbedding, space, filter, candidates) : Promise.resolve([]),
+    searchChunksByKeyword(query, filter, candidates),
+  ]);
+  return fuseRankings([
+    { chunks: vectorChunks, weight: options.vectorWeight },
+    { chunks: keywordChunks, weight: options.keywordWeight },
+  ], options.rrfK).slice(0, k);
+}
+
+// Helper: Retrieve with several phrasings of the same question and merge the rankings.
+// queryEmbeddings are in the same order as queries, or null for keyword-only retrieval.
+export async function retrieveForQueries(
+  queries: string[],
+  queryEmbeddings: number[][] | null,
+  space: EmbeddingSpace,
+  filter: SearchFilter,
+  k: number,
+  options: RetrievalOptions
+): Promise<RetrievedChunk[]> {
+  const rankings = await Promise.all(
+    queries.map((query, i) => retrieveChunks(query, queryEmbeddings?.[i] ?? null, space, filter, k, options))
+  );
+  if (rankings.length === 1) return rankings[0];
+  return fuseRankings(rankings.map(chunks => ({ chunks, weight: 1 })), options.rrfK).slice(0, k);
+}
+
+// Helper: Cosine similarity of each chunk to the query. Hybrid and multi-query results mix chunks
+// found by different searches, so similarity is computed against the main query for all of them.
+async function scoreSimilarity(chunks: RetrievedChunk[], queryEmbedding: number[]): Promise<RetrievedChunk[]> {
+  const dim = queryEmbedding.length;
+  if (chunks.length === 0 || !Number.isInteger(dim) || dim <= 0) return chunks;
+  const { rows } = await pool.query(
+    `SELECT id, 1 - (embedding::vector(${dim}) <=> $1::vector(${dim})) AS similarity
+     FROM pdf_chunks
+     WHERE id = ANY($2::int[]) AND embedding_dim = ${dim}`,
+    [toVectorLiteral(queryEmbedding), chunks.map(chunk => chunk.id)]
+  );
+  const similarities = new Map(rows.map(row => [row.id, Number(row.similarity)]));
+  return chunks.map(chunk => ({ ...chunk, similarity: similarities.get(chunk.id) ?? chunk.similarity }));
+}
+
+// Helper: The score the relevance threshold applies to; undefined for keyword-only results
+function relevance(chunk: RetrievedChunk): number | undefined {
+  return chunk.rerankScore ?? chunk.similarity;
+}
+
+export type RerankModels = { provider: ModelProvider, chatModel: string, signal?: AbortSignal };
+
+// Retrieve the chunks to answer with: search with every phrasing of the question, rerank a larger
+// candidate set if requested, then drop chunks below the relevance threshold. An empty result
+// means nothing in the documents is relevant enough to answer from.
+export async function retrieveContext(
+  queries: string[],
+  queryEmbeddings: number[][] | null,
+  space: EmbeddingSpace,
+  filter: SearchFilter,
+  options: RetrievalOptions,
+  models: RerankModels
+): Promise<RetrievedChunk[]> {
+  const depth = options.reranker !== 'none' ? options.rerankCandidates : options.topK;
+  let chunks = await retrieveForQueries(queries, queryEmbeddings, space, filter, depth, options);
+  if (queryEmbeddings) chunks = await scoreSimilarity(chunks, queryEmbeddings[0]);
+
+  if (options.reranker !== 'none') {
+    chunks = await rerankChunks(queries[0], chunks, {
+      reranker: options.reranker,
+      provider: models.provider,
+      chatModel: models.chatModel,
+      rerankerUrl: options.rerankerUrl,
+      signal: models.signal,
+    });
+  }
+
+  if (options.minScore > 0) {
+    chunks = chunks.filter(chunk => {
+      const score = relevance(chunk);
+      return score === undefined || score >= options.minScore;
+    });
+  }
+  return chunks.slice(0, options.topK);
+}
+
+// The chunks just before and after a chunk in its document, in index order
+export async function getNeighborChunks(chunkId: number): Promise<RetrievedChunk[]> {
+  const { rows } = await pool.query(
+    `SELECT c.id, c.document_id, c.text, c.chunk_type, c.section_path, c.page_number, c.end_page_number, c.start_offset, c.end_offset, d.filename,
+            0 AS score
+     FROM pdf_chunks t
+     JOIN pdf_chunks c ON c.document_id = t.document_id AND c.chunk_index BETWEEN t.chunk_index - 1 AND t.chunk_index + 1 AND c.id <> t.id
+     JOIN documents d ON d.id = c.document_id
+     WHERE t.id = $1
+     ORDER BY c.chunk_index`,
+    [chunkId]
+  );
+  return rows.map(toRetrievedChunk);
+}
+
+// Helper: Citation for a retrieved chunk, as returned to the client
+export function toSource(chunk: RetrievedChunk) {
+  const snippet = chunk.text.replace(/\s+/g, ' ').trim();
+  return {
+    chunkId: chunk.id,
+    documentId: chunk.documentId,
+    filename: chunk.filename,
+    pageNumber: chunk.pageNum,
+    endPageNumber: chunk.endPageNum,
+    startOffset: chunk.startOffset,
+    endOffset: chunk.endOffset,
+    chunkType: chunk.chunkType,
+    sectionPath: chunk.sectionPath,
+    score: chunk.rerankScore ?? chunk.similarity ?? chunk.score,
+    snippet: snippet.length > 240 ? `${snippet.slice(0, 240)}…` : snippet,
+  };
+}
+
+// Helper: Human-readable page reference of a chunk, used in the model context
+export function formatPages(chunk: RetrievedChunk): string {
+  const pages = chunk.endPageNum !== chunk.pageNum ? `Páginas ${chunk.pageNum}–${chunk.endPageNum}` : `Página ${chunk.pageNum}`;
+  return chunk.chunkType === 'table' ? `${pages} · Tabela` : pages;
+}
+
+// Helper: Label of a chunk in the model context: document, pages and section
+export function formatContextLabel(chunk: RetrievedChunk): string {
+  const parts = [chunk.filename, formatPages(chunk)];
+  if (chunk.sectionPath) parts.push(chunk.sectionPath);
+  return `[${parts.join(' · ')}]`;
+}
+
+// Helper: Parse the document scope of a chat request (null means all documents)
+export function parseDocumentScope(documentIds: unknown): number[] | null {
+  if (documentIds === undefined || documentIds === null || documentIds === 'all') return null;
+  const ids = (Array.isArray(documentIds) ? documentIds : [documentIds]).map(Number);
+  // A bad id fails the request rather than being dropped, which could widen or empty the scope
+  if (ids.some(id => !Number.isInteger(id) || id < 1)) throw new Error('documentIds must be positive integers');
+  return ids;
+}
+
+// Helper: Parse the section and page range filters of a chat request
+export function parseSearchFilter(body: any, documentIds: number[] | null): SearchFilter {
+  const sections = body.sections === undefined || body.sections === null ? [] : body.sections;
+  if (!Array.isArray(sections) || sections.some(section => typeof section !== 'string')) {
+    throw new Error('sections must be an array of section paths');
+  }
+  const page = (value: unknown, name: string) => {
+    if (value === undefined || value === null || value === '') return null;
+    const n = Number(value);
+    if (!Number.isInteger(n) || n < 1) throw new Error(`${name} must be a positive integer`);
+    return n;
+  };
+  const pageFrom = page(body.pageRange?.from, 'pageRange.from');
+  const pageTo = page(body.pageRange?.to, 'pageRange.to');
+  if (pageFrom !== null && pageTo !== null && pageFrom > pageTo) {
+    throw new Error('pageRange.from must not be after pageRange.to');
+  }
+  return { documentIds, sections: sections.filter(Boolean), pageFrom, pageTo };
+}
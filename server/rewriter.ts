@@ -0,0 +1,98 @@
+import type { ChatMessage, ModelProvider } from './providers/index.ts';
+
+// Query condensing: follow-ups like "and the second one?" only make sense with the conversation,
+// so before retrieval the chat model rewrites them into a standalone search query, optionally
+// with a few alternative phrasings whose results are merged.
+
+export type RewriteOptions = {
+  // Rewrite the question using the conversation history
+  condense: boolean;
+  // Alternative phrasings to search with in addition to the main query
+  variants: number;
+};
+
+export type RewrittenQuery = {
+  original: string;
+  // Standalone query used for retrieval (the original message when not rewritten)
+  query: string;
+  variants: string[];
+};
+
+export const MAX_QUERY_VARIANTS = 4;
+
+// Earlier turns shown to the rewriter; long answers are cut, the question is what matters
+const REWRITE_HISTORY_MESSAGES = 6;
+const REWRITE_MESSAGE_CHARS = 500;
+
+// Helper: Validate the rewriting settings of a chat request
+export function parseRewriteOptions(body: any): RewriteOptions {
+  const condense = body.rewriteQuery === undefined || body.rewriteQuery === null
+    ? true
+    : body.rewriteQuery === true || body.rewriteQuery === 'true';
+  const variants = body.queryVariants === undefined || body.queryVariants === null || body.queryVariants === ''
+    ? 0
+    : Number(body.queryVariants);
+  if (!Number.isInteger(variants) || variants < 0 || variants > MAX_QUERY_VARIANTS) {
+    throw new Error(`queryVariants must be an integer between 0 and ${MAX_QUERY_VARIANTS}`);
+  }
+  return { condense, variants };
+}
+
+function buildPrompt(message: string, history: ChatMessage[], options: RewriteOptions, condense: boolean): string {
+  const transcript = history
+    .slice(-REWRITE_HISTORY_MESSAGES)
+    .map(m => {
+      const text = m.content.length > REWRITE_MESSAGE_CHARS ? `${m.content.slice(0, REWRITE_MESSAGE_CHARS)}…` : m.content;
+      return `${m.role === 'assistant' ? 'Assistant' : 'User'}: ${text}`;
+    })
+    .join('\n');
+
+  const lines = ['You turn questions about a PDF document into search queries for that document.'];
+  if (condense) {
+    lines.push('Rewrite the latest question as a standalone search query, resolving references such as "it", "that one" or "the second one" from the conversation.');
+  }
+  if (options.variants > 0) {
+    lines.push(`${condense ? 'Then write' : 'Write'} ${options.variants} alternative phrasing(s) of the ${condense ? 'same query' : 'latest question'}, using different words or synonyms.`);
+  }
+  lines.push(
+    'Keep the language of the question and keep names, numbers and identifiers exactly as written.',
+    `Answer with one query per line${condense ? ', the standalone query first,' : ''} and nothing else.`
+  );
+  if (condense) lines.push('', 'Conversation:', transcript);
+  lines.push('', `Latest question: ${message}`);
+  return lines.join('\n');
+}
+
+// Helper: Strip list markers and quotes models like to add around each line
+function cleanLine(line: string): string {
+  return line
+    .trim()
+    .replace(/^(?:(?:[-*•]|\d+[.)])\s+|(?:query|variant)\s*\d*\s*:\s*)/i, '')
+    .replace(/^["'“”]+|["'“”]+$/g, '')
+    .trim();
+}
+
+// Rewrite a chat message for retrieval. Without history there is nothing to condense, and
+// without variants either the model is not called at all.
+export async function rewriteQuery(
+  provider: ModelProvider,
+  chatModel: string,
+  message: string,
+  history: ChatMessage[],
+  options: RewriteOptions,
+  signal?: AbortSignal
+): Promise<RewrittenQuery> {
+  const unchanged = { original: message, query: message, variants: [] };
+  const condense = options.condense && history.length > 0;
+  if (!condense && options.variants === 0) return unchanged;
+
+  const response = await provider.chat(
+    [{ role: 'user', content: buildPrompt(message, history, options, condense) }],
+    chatModel,
+    { signal, temperature: 0 }
+  );
+  const lines = [...new Set(response.split('\n').map(cleanLine).filter(Boolean))];
+  const [query, ...variants] = condense ? lines : [message, ...lines];
+  if (!query) return unchanged;
+  return { original: message, query, variants: variants.filter(v => v !== query).slice(0, options.variants) };
+}
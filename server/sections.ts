@@ -0,0 +1,146 @@
+// Document structure: headings from the PDF outline (bookmarks), or from numbered heading lines
+// when there is no outline, and the mapping of chunks to the heading path they fall under.
+
+import type { PageText, TextChunk } from './chunker.ts';
+
+export type Heading = {
+  title: string;
+  level: number;
+  page: number;
+  // Character offset of the heading within its page's text (0 when it can't be located)
+  offset: number;
+  // Titles from the top-level heading down to this one, e.g. "3 Safety > 3.2 Electrical"
+  path: string;
+};
+
+export type OutlineItem = {
+  title: string;
+  dest: string | any[] | null;
+  items: OutlineItem[];
+};
+
+export const SECTION_SEPARATOR = ' > ';
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+// Helper: Offset of a heading title in a page, ignoring differences in whitespace and case
+function findTitle(pageText: string, title: string): number {
+  const wanted = normalize(title);
+  if (!wanted) return 0;
+  // Build the normalized text alongside a map back to original offsets
+  let flat = '';
+  const positions: number[] = [];
+  for (let i = 0; i < pageText.length; i++) {
+    const isSpace = /\s/.test(pageText[i]);
+    if (isSpace && (flat.length === 0 || flat.endsWith(' '))) continue;
+    flat += isSpace ? ' ' : pageText[i].toLowerCase();
+    positions.push(i);
+  }
+  const index = flat.indexOf(wanted);
+  return index >= 0 ? positions[index] : 0;
+}
+
+// Flatten the outline tree into headings, resolving each destination to a page number
+export async function headingsFromOutline(
+  outline: OutlineItem[],
+  pages: PageText[],
+  resolvePage: (dest: OutlineItem['dest']) => Promise<number | null>
+): Promise<Heading[]> {
+  const headings: Heading[] = [];
+  const pageText = new Map(pages.map(page => [page.num, page.text]));
+
+  const visit = async (items: OutlineItem[], level: number, parents: string[]) => {
+    for (const item of items) {
+      const title = item.title.replace(/\s+/g, ' ').trim();
+      const path = [...parents, title];
+      let page: number | null = null;
+      try {
+        page = await resolvePage(item.dest);
+      } catch (error) {
+        // Broken destinations are common; fall back to searching for the title below
+      }
+      if (page === null) {
+        page = pages.find(p => normalize(p.text).includes(normalize(title)))?.num ?? null;
+      }
+      if (page !== null && title) {
+        headings.push({ title, level, page, offset: findTitle(pageText.get(page) ?? '', title), path: path.join(SECTION_SEPARATOR) });
+      }
+      if (item.items?.length) await visit(item.items, level + 1, path);
+    }
+  };
+
+  await visit(outline, 1, []);
+  return sortHeadings(headings);
+}
+
+// Compare dotted section numbers such as "3.2" and "3.10"
+function compareNumbers(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const diff = (a[i] ?? -1) - (b[i] ?? -1);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+// Fallback for PDFs without an outline: short lines like "3.2 Electrical" whose numbers keep
+// increasing through the document. The ordering check filters out numbered list items and table rows.
+export function detectHeadings(pages: PageText[]): Heading[] {
+  const headings: Heading[] = [];
+  const stack: { numbers: number[], title: string }[] = [];
+  let last: number[] | null = null;
+
+  for (const page of pages) {
+    let offset = 0;
+    for (const line of page.text.split('\n')) {
+      const lineOffset = offset;
+      offset += line.length + 1;
+
+      const match = line.trim().match(/^(\d{1,2}(?:\.\d{1,2}){0,3})\.?\s+(\p{Lu}[^.!?:;]{1,80})$/u);
+      if (!match || match[2].trim().split(/\s+/).length > 12) continue;
+      const numbers = match[1].split('.').map(Number);
+      if (last && compareNumbers(numbers, last) <= 0) continue;
+      last = numbers;
+
+      const title = `${match[1]} ${match[2].trim()}`;
+      while (stack.length > 0 && stack[stack.length - 1].numbers.length >= numbers.length) stack.pop();
+      stack.push({ numbers, title });
+      headings.push({
+        title,
+        level: numbers.length,
+        page: page.num,
+        offset: lineOffset + line.length - line.trimStart().length,
+        path: stack.map(s => s.title).join(SECTION_SEPARATOR),
+      });
+    }
+  }
+  return headings;
+}
+
+function sortHeadings(headings: Heading[]): Heading[] {
+  return headings
+    .map((heading, order) => ({ heading, order }))
+    .sort((a, b) => a.heading.page - b.heading.page || a.heading.offset - b.heading.offset || a.order - b.order)
+    .map(({ heading }) => heading);
+}
+
+// Section path of each chunk: the last heading at or before where the chunk starts.
+// Tables have no offset, so they take the first heading on their page when there is one.
+export function assignSections(chunks: TextChunk[], headings: Heading[]): TextChunk[] {
+  if (headings.length === 0) return chunks;
+  return chunks.map(chunk => {
+    let section: Heading | undefined;
+    if (chunk.startOffset === null) {
+      section = headings.find(h => h.page === chunk.startPage);
+    }
+    if (!section) {
+      const offset = chunk.startOffset ?? 0;
+      for (const heading of headings) {
+        if (heading.page < chunk.startPage || (heading.page === chunk.startPage && heading.offset <= offset)) section = heading;
+        else break;
+      }
+    }
+    return { ...chunk, sectionPath: section?.path ?? null };
+  });
+}
@@ -0,0 +1,157 @@
+import { DEFAULT_AGENT_STEPS, parseAgentSteps } from './agent.ts';
+import { DEFAULT_CHUNKING_CONFIG, parseChunkingConfig, type ChunkStrategy, type ChunkUnit } from './chunker.ts';
+import { pool } from './db.ts';
+import { PROVIDER_NAMES, type ProviderName } from './providers/index.ts';
+import type { Reranker } from './reranker.ts';
+import { DEFAULT_TOP_K, parseRetrievalOptions, type RetrievalMode } from './retrieval.ts';
+import { parseRewriteOptions } from './rewriter.ts';
+
+// Settings of the web app, saved per account. Defaults come from the server environment, so a
+// deployment can preselect its provider and models; API keys are never stored.
+
+export type AppSettings = {
+  provider: ProviderName;
+  baseUrl: string;
+  chatModel: string;
+  embeddingModel: string;
+  // Size of the embeddings of embeddingModel, recorded when the model was checked; null until then
+  embeddingDimension: number | null;
+  retrievalMode: RetrievalMode;
+  vectorWeight: number;
+  keywordWeight: number;
+  rewriteQuery: boolean;
+  queryVariants: number;
+  topK: number;
+  minScore: number;
+  reranker: Reranker;
+  rerankerUrl: string;
+  // Tool-calling turns allowed in agent mode
+  agentSteps: number;
+  chunkStrategy: ChunkStrategy;
+  chunkUnit: ChunkUnit;
+  chunkSize: number;
+  chunkOverlap: number;
+  chunkAcrossPages: boolean;
+};
+
+const DEFAULT_BASE_URLS: Record<ProviderName, string> = {
+  ollama: 'http://localhost:11434',
+  openai: 'http://localhost:8080/v1',
+  gemini: '',
+};
+
+// Defaults for accounts that saved nothing yet, overridable with DEFAULT_PROVIDER, OLLAMA_URL
+// (or DEFAULT_BASE_URL for other providers), DEFAULT_CHAT_MODEL and DEFAULT_EMBEDDING_MODEL
+export function defaultSettings(): AppSettings {
+  const env = process.env;
+  const provider = PROVIDER_NAMES.includes(env.DEFAULT_PROVIDER as ProviderName) ? env.DEFAULT_PROVIDER as ProviderName : 'ollama';
+  return {
+    provider,
+    baseUrl: env.DEFAULT_BASE_URL || (provider === 'ollama' ? env.OLLAMA_URL : undefined) || DEFAULT_BASE_URLS[provider],
+    chatModel: env.DEFAULT_CHAT_MODEL || 'qwen2.5-coder:7b',
+    embeddingModel: env.DEFAULT_EMBEDDING_MODEL || 'nomic-embed-text',
+    embeddingDimension: null,
+    retrievalMode: 'hybrid',
+    vectorWeight: 1,
+    keywordWeight: 1,
+    rewriteQuery: true,
+    queryVariants: 0,
+    topK: DEFAULT_TOP_K,
+    minScore: 0,
+    reranker: 'none',
+    rerankerUrl: env.RERANKER_URL || 'http://localhost:8081/rerank',
+    agentSteps: DEFAULT_AGENT_STEPS,
+    chunkStrategy: DEFAULT_CHUNKING_CONFIG.strategy,
+    chunkUnit: DEFAULT_CHUNKING_CONFIG.unit,
+    chunkSize: DEFAULT_CHUNKING_CONFIG.chunkSize,
+    chunkOverlap: DEFAULT_CHUNKING_CONFIG.overlap,
+    chunkAcrossPages: DEFAULT_CHUNKING_CONFIG.crossPages,
+  };
+}
+
+// Validate changed settings over the current ones, with the same rules the chat and upload
+// routes apply to them
+export function parseSettings(input: unknown, current: AppSettings): AppSettings {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error('settings must be an object');
+  }
+  const unknown = Object.keys(input).filter(key => !(key in current));
+  if (unknown.length > 0) throw new Error(`Unknown setting(s): ${unknown.join(', ')}`);
+  const settings = { ...current, ...input } as AppSettings;
+
+  if (!PROVIDER_NAMES.includes(settings.provider)) {
+    throw new Error(`provider must be one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+  for (const key of ['baseUrl', 'chatModel', 'embeddingModel', 'rerankerUrl'] as const) {
+    if (typeof settings[key] !== 'string') throw new Error(`${key} must be a string`);
+    settings[key] = settings[key].trim();
+  }
+  const dimension = settings.embeddingDimension;
+  if (dimension !== null && (!Number.isInteger(dimension) || dimension < 1)) {
+    throw new Error('embeddingDimension must be a positive integer or null');
+  }
+  // The recorded size belongs to the model it was measured for
+  if ('embeddingModel' in input && settings.embeddingModel !== current.embeddingModel && !('embeddingDimension' in input)) {
+    settings.embeddingDimension = null;
+  }
+
+  const retrieval = parseRetrievalOptions({
+    retrievalMode: settings.retrievalMode,
+    hybridWeights: { vector: settings.vectorWeight, keyword: settings.keywordWeight },
+    topK: settings.topK,
+    minScore: settings.minScore,
+    reranker: settings.reranker,
+    rerankerUrl: settings.rerankerUrl,
+  });
+  const rewriting = parseRewriteOptions({ rewriteQuery: settings.rewriteQuery, queryVariants: settings.queryVariants });
+  const chunking = parseChunkingConfig({
+    strategy: settings.chunkStrategy,
+    unit: settings.chunkUnit,
+    chunkSize: settings.chunkSize,
+    overlap: settings.chunkOverlap,
+    crossPages: settings.chunkAcrossPages,
+  });
+
+  return {
+    ...settings,
+    retrievalMode: retrieval.mode,
+    vectorWeight: retrieval.vectorWeight,
+    keywordWeight: retrieval.keywordWeight,
+    topK: retrieval.topK,
+    minScore: retrieval.minScore,
+    reranker: retrieval.reranker,
+    agentSteps: parseAgentSteps(settings.agentSteps),
+    rewriteQuery: rewriting.condense,
+    queryVariants: rewriting.variants,
+    chunkStrategy: chunking.strategy,
+    chunkUnit: chunking.unit,
+    chunkSize: chunking.chunkSize,
+    chunkOverlap: chunking.overlap,
+    chunkAcrossPages: chunking.crossPages,
+  };
+}
+
+// Saved settings of an account over the defaults. Saved values that no longer validate (e.g. an
+// option that was removed) fall back to the defaults instead of failing.
+export async function getSettings(userId: number): Promise<AppSettings> {
+  const defaults = defaultSettings();
+  const { rows } = await pool.query('SELECT settings FROM user_settings WHERE user_id = $1', [userId]);
+  if (rows.length === 0) return defaults;
+  const saved = Object.fromEntries(Object.entries(rows[0].settings ?? {}).filter(([key]) => key in defaults));
+  try {
+    return parseSettings(saved, defaults);
+  } catch (error: any) {
+    console.warn(`Ignoring invalid saved settings of user ${userId}:`, error.message);
+    return defaults;
+  }
+}
+
+// Save the settings of an account, as validated by parseSettings
+export async function saveSettings(userId: number, settings: AppSettings): Promise<AppSettings> {
+  await pool.query(
+    `INSERT INTO user_settings (user_id, settings, updated_at) VALUES ($1, $2, NOW())
+     ON CONFLICT (user_id) DO UPDATE SET settings = EXCLUDED.settings, updated_at = NOW()`,
+    [userId, JSON.stringify(settings)]
+  );
+  return settings;
+}
@@ -0,0 +1,282 @@
+import { pool, ensureVectorIndex, toVectorLiteral } from './db.ts';
+import { ApiError } from './http.ts';
+import { getPages, type EmbeddingOptions } from './indexer.ts';
+
+// Index snapshots move an indexed document between servers without embedding it again. A
+// snapshot is JSONL: a header line with the document and its embedding model, then one line per
+// page and one per chunk, embeddings included. The original PDF is not part of it.
+
+export const SNAPSHOT_VERSION = 1;
+
+type SnapshotHeader = {
+  type: 'snapshot';
+  version: number;
+  exportedAt: string;
+  document: {
+    filename: string;
+    pageCount: number | null;
+    embeddingProvider: string;
+    embeddingModel: string;
+    embeddingDim: number;
+    chunkingConfig: unknown;
+    contentHash: string | null;
+    metadata: unknown;
+    outline: unknown;
+    summary: string | null;
+    sectionSummaries: unknown;
+    suggestedQuestions: unknown;
+    pageTotal: number;
+    chunkTotal: number;
+  };
+};
+
+type SnapshotPage = { type: 'page', pageNumber: number, text: string };
+
+type SnapshotChunk = {
+  type: 'chunk';
+  chunkIndex: number;
+  pageNumber: number;
+  endPageNumber: number;
+  startOffset: number | null;
+  endOffset: number | null;
+  chunkType: string;
+  sectionPath: string | null;
+  text: string;
+  contentHash: string | null;
+  embedding: number[];
+};
+
+// Chunks read per query while exporting and inserted per statement while importing
+const BATCH_SIZE = 200;
+
+// The snapshot of a ready document, checked before any line is produced. Chunks are read in
+// batches, so large documents are streamed rather than held in memory.
+export async function exportSnapshot(documentId: number): Promise<{ filename: string, lines: AsyncGenerator<string> }> {
+  const { rows: [document] } = await pool.query(
+    `SELECT d.*, (SELECT COUNT(*) FROM pdf_chunks c WHERE c.document_id = d.id) AS chunk_count,
+            (SELECT MIN(c.embedding_dim) FROM pdf_chunks c WHERE c.document_id = d.id) AS embedding_dim,
+            (SELECT COUNT(DISTINCT c.embedding_dim) FROM pdf_chunks c WHERE c.document_id = d.id) AS dim_count
+     FROM documents d WHERE d.id = $1`,
+    [documentId]
+  );
+  if (!document) throw new ApiError(404, 'Document not found');
+  if (document.status !== 'ready') throw new ApiError(409, 'Only fully indexed documents can be exported.');
+  if (Number(document.dim_count) > 1) throw new ApiError(409, 'The chunks of this document have embeddings of different sizes.');
+  return { filename: document.filename, lines: snapshotLines(documentId, document) };
+}
+
+async function* snapshotLines(documentId: number, document: any): AsyncGenerator<string> {
+  const pages = await getPages(documentId);
+  const header: SnapshotHeader = {
+    type: 'snapshot',
+    version: SNAPSHOT_VERSION,
+    exportedAt: new Date().toISOString(),
+    document: {
+      filename: document.filename,
+      pageCount: document.page_count,
+      embeddingProvider: document.embedding_provider,
+      embeddingModel: document.embedding_model,
+      embeddingDim: document.embedding_dim,
+      chunkingConfig: document.chunking_config,
+      contentHash: document.content_hash,
+      metadata: document.metadata,
+      outline: document.outline,
+      summary: document.summary,
+      sectionSummaries: document.section_summaries,
+      suggestedQuestions: document.suggested_questions,
+      pageTotal: pages.length,
+      chunkTotal: Number(document.chunk_count),
+    },
+  };
+  yield JSON.stringify(header) + '\n';
+
+  for (const page of pages) {
+    const line: SnapshotPage = { type: 'page', pageNumber: page.num, text: page.text };
+    yield JSON.stringify(line) + '\n';
+  }
+
+  let lastIndex = -1;
+  while (true) {
+    const { rows } = await pool.query(
+      `SELECT chunk_index, page_number, end_page_number, start_offset, end_offset, chunk_type, section_path, text, content_hash,
+              embedding::text AS embedding
+       FROM pdf_chunks WHERE document_id = $1 AND chunk_index > $2
+       ORDER BY chunk_index
+       LIMIT ${BATCH_SIZE}`,
+      [documentId, lastIndex]
+    );
+    if (rows.length === 0) break;
+    for (const row of rows) {
+      const line: SnapshotChunk = {
+        type: 'chunk',
+        chunkIndex: row.chunk_index,
+        pageNumber: row.page_number,
+        endPageNumber: row.end_page_number ?? row.page_number,
+        startOffset: row.start_offset,
+        endOffset: row.end_offset,
+        chunkType: row.chunk_type,
+        sectionPath: row.section_path,
+        text: row.text,
+        contentHash: row.content_hash,
+        embedding: JSON.parse(row.embedding),
+      };
+      yield JSON.stringify(line) + '\n';
+    }
+    lastIndex = rows[rows.length - 1].chunk_index;
+  }
+}
+
+function isOptional(value: unknown, check: (value: unknown) => boolean): boolean {
+  return value === undefined || value === null || check(value);
+}
+
+// Page numbers, offsets and counts are stored in INTEGER columns
+const MAX_INTEGER = 2_147_483_647;
+
+const isString = (value: unknown) => typeof value === 'string';
+const isPageNumber = (value: unknown) => Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_INTEGER;
+const isOffset = (value: unknown) => Number.isInteger(value) && (value as number) >= 0 && (value as number) <= MAX_INTEGER;
+
+// Helper: Whether the document of a snapshot header has the fields the import relies on
+function isSnapshotDocument(document: unknown): document is SnapshotHeader['document'] {
+  if (typeof document !== 'object' || document === null || Array.isArray(document)) return false;
+  const fields = document as Record<string, unknown>;
+  return typeof fields.filename === 'string' && fields.filename.trim() !== ''
+    && isOptional(fields.pageCount, isPageNumber)
+    && isString(fields.embeddingProvider) && isString(fields.embeddingModel)
+    && isOptional(fields.contentHash, isString) && isOptional(fields.summary, isString)
+    && isOffset(fields.pageTotal) && isOffset(fields.chunkTotal)
+    && (fields.chunkTotal === 0 || isPageNumber(fields.embeddingDim));
+}
+
+// Helper: Parse and check the lines of a snapshot file. Every page and chunk line is checked
+// before anything is inserted, so a malformed snapshot is rejected with the line at fault.
+function parseSnapshot(data: Buffer): { header: SnapshotHeader, pages: SnapshotPage[], chunks: SnapshotChunk[] } {
+  const lines = data.toString('utf8').split('\n')
+    .map((text, i) => ({ text, number: i + 1 }))
+    .filter(line => line.text.trim());
+  const records = lines.map(line => {
+    try {
+      return { record: JSON.parse(line.text), line: line.number };
+    } catch {
+      throw new ApiError(400, `Line ${line.number} of the snapshot is not valid JSON.`);
+    }
+  });
+
+  const header = records[0]?.record as SnapshotHeader | undefined;
+  if (header?.type !== 'snapshot') throw new ApiError(400, 'The file is not an index snapshot.');
+  if (header.version !== SNAPSHOT_VERSION) {
+    throw new ApiError(400, `Snapshot version ${header.version} is not supported (expected ${SNAPSHOT_VERSION}).`);
+  }
+  if (!isSnapshotDocument(header.document)) throw new ApiError(400, 'Line 1 of the snapshot is a malformed header.');
+
+  const { embeddingDim, pageTotal, chunkTotal } = header.document;
+  const pages: SnapshotPage[] = [];
+  const chunks: SnapshotChunk[] = [];
+  const pageNumbers = new Set<number>();
+  const chunkIndexes = new Set<number>();
+  const chunkLines: number[] = [];
+  for (const { record, line } of records.slice(1)) {
+    if (record?.type === 'page') {
+      if (!isPageNumber(record.pageNumber) || typeof record.text !== 'string') {
+        throw new ApiError(400, `Line ${line} of the snapshot is a malformed page.`);
+      }
+      if (pageNumbers.has(record.pageNumber)) throw new ApiError(400, `Line ${line} of the snapshot repeats page ${record.pageNumber}.`);
+      pageNumbers.add(record.pageNumber);
+      pages.push(record);
+    } else if (record?.type === 'chunk') {
+      const valid = isOffset(record.chunkIndex) && isPageNumber(record.pageNumber) && typeof record.text === 'string'
+        && isOptional(record.endPageNumber, isPageNumber) && isOptional(record.startOffset, isOffset) && isOptional(record.endOffset, isOffset)
+        && isOptional(record.chunkType, isString) && isOptional(record.sectionPath, isString) && isOptional(record.contentHash, isString);
+      if (!valid) throw new ApiError(400, `Line ${line} of the snapshot is a malformed chunk.`);
+      if (chunkIndexes.has(record.chunkIndex)) throw new ApiError(400, `Line ${line} of the snapshot repeats chunk ${record.chunkIndex}.`);
+      if (!Array.isArray(record.embedding) || record.embedding.length !== embeddingDim || !record.embedding.every(Number.isFinite)) {
+        throw new ApiError(400, `Line ${line} of the snapshot: chunk ${record.chunkIndex} does not have a ${embeddingDim}-dimensional embedding.`);
+      }
+      chunkIndexes.add(record.chunkIndex);
+      chunks.push(record);
+      chunkLines.push(line);
+    }
+  }
+  // Pages may follow the chunks in the file, so chunk pages are checked once every page is read
+  chunks.forEach((chunk, i) => {
+    const endPageNumber = chunk.endPageNumber ?? chunk.pageNumber;
+    if (!pageNumbers.has(chunk.pageNumber) || !pageNumbers.has(endPageNumber)) {
+      throw new ApiError(400, `Line ${chunkLines[i]} of the snapshot: chunk ${chunk.chunkIndex} refers to a page that is not in the snapshot.`);
+    }
+  });
+  if (pages.length !== pageTotal || chunks.length !== chunkTotal) {
+    throw new ApiError(400, `The snapshot is incomplete: expected ${pageTotal} pages and ${chunkTotal} chunks, found ${pages.length} and ${chunks.length}.`);
+  }
+  return { header, pages, chunks };
+}
+
+// Restore a snapshot as a new, ready document. The snapshot must come from the provider and
+// embedding model the caller searches with, and the model must still produce embeddings of the
+// stored size, or the imported chunks could never be found.
+export async function importSnapshot(data: Buffer, options: EmbeddingOptions) {
+  const { header, pages, chunks } = parseSnapshot(data);
+  const { document } = header;
+
+  if (document.embeddingProvider !== options.provider.name || document.embeddingModel !== options.embeddingModel) {
+    throw new ApiError(400, `The snapshot was embedded with ${document.embeddingModel} (${document.embeddingProvider}), not ${options.embeddingModel} (${options.provider.name}).`);
+  }
+  let probe: number[];
+  try {
+    [probe] = await options.provider.embed(['dimension check'], options.embeddingModel);
+  } catch (error: any) {
+    throw new ApiError(502, `Could not check the embedding model: ${error.message}`);
+  }
+  if (chunks.length > 0 && probe.length !== document.embeddingDim) {
+    throw new ApiError(400, `${options.embeddingModel} returns ${probe.length}-dimensional embeddings, but the snapshot has ${document.embeddingDim}.`);
+  }
+  if (chunks.length > 0) await ensureVectorIndex(document.embeddingDim);
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const { rows: [row] } = await client.query(
+      `INSERT INTO documents (filename, page_count, embedding_provider, embedding_model, chunking_config, status, chunk_total,
+                             content_hash, metadata, outline, summary, section_summaries, suggested_questions)
+       VALUES ($1, $2, $3, $4, $5, 'ready', $6, $7, $8, $9, $10, $11, $12)
+       RETURNING id`,
+      [
+        document.filename, document.pageCount, document.embeddingProvider, document.embeddingModel,
+        JSON.stringify(document.chunkingConfig ?? null), chunks.length, document.contentHash,
+        JSON.stringify(document.metadata ?? null), JSON.stringify(document.outline ?? null), document.summary ?? null,
+        JSON.stringify(document.sectionSummaries ?? null), JSON.stringify(document.suggestedQuestions ?? null),
+      ]
+    );
+    const documentId: number = row.id;
+
+    await client.query(
+      `INSERT INTO document_pages (document_id, page_number, text)
+       SELECT $1, * FROM unnest($2::int[], $3::text[])`,
+      [documentId, pages.map(page => page.pageNumber), pages.map(page => page.text)]
+    );
+
+    for (let start = 0; start < chunks.length; start += BATCH_SIZE) {
+      const params: unknown[] = [documentId, document.filename, document.embeddingDim];
+      const values = chunks.slice(start, start + BATCH_SIZE).map(chunk => {
+        const base = params.length;
+        params.push(
+          chunk.chunkIndex, chunk.pageNumber, chunk.endPageNumber ?? chunk.pageNumber, chunk.startOffset ?? null, chunk.endOffset ?? null,
+          chunk.chunkType || 'text', chunk.sectionPath ?? null, chunk.text, chunk.contentHash ?? null, toVectorLiteral(chunk.embedding),
+        );
+        return `($1, $2, $${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6}, $${base + 7}, $${base + 8}, $${base + 9}, $${base + 10}::vector, $3)`;
+      });
+      await client.query(
+        `INSERT INTO pdf_chunks (document_id, filename, chunk_index, page_number, end_page_number, start_offset, end_offset, chunk_type, section_path, text, content_hash, embedding, embedding_dim)
+         VALUES ${values.join(', ')}`,
+        params
+      );
+    }
+    await client.query('COMMIT');
+    return { documentId, pageCount: pages.length, chunkCount: chunks.length };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,133 @@
+import { pool } from './db.ts';
+import type { ModelProvider } from './providers/index.ts';
+import { SECTION_SEPARATOR } from './sections.ts';
+
+// Map-reduce summarization of an indexed document: the chunks of each top-level section are
+// summarized in batches (map), batch summaries are merged until one is left (reduce), and the
+// section summaries are reduced again into a summary of the whole document. A few starter
+// questions are generated from the result. Everything is stored with the document.
+
+export type SummaryOptions = {
+  provider: ModelProvider;
+  chatModel: string;
+  signal?: AbortSignal;
+};
+
+export type SectionSummary = { section: string, summary: string };
+
+export type DocumentSummary = {
+  summary: string;
+  sectionSummaries: SectionSummary[];
+  suggestedQuestions: string[];
+};
+
+// Progress in summarized sections, plus one step for the document summary and questions
+export type SummaryProgress = { done: number, total: number };
+
+// Characters of text per summarization prompt
+const BATCH_CHARS = 6000;
+const SUGGESTED_QUESTIONS = 5;
+
+const MAP_PROMPT = 'Summarize the following excerpt of a PDF document in 2 to 4 sentences. Keep key facts, numbers and names. Write in the language of the excerpt and answer with the summary only.';
+const REDUCE_PROMPT = 'The following are summaries of consecutive parts of a PDF document. Merge them into a single summary of 3 to 6 sentences. Write in the language of the summaries and answer with the summary only.';
+
+// Helper: Group texts into batches of at most BATCH_CHARS, cutting texts that are longer on their own
+function packTexts(texts: string[]): string[] {
+  const batches: string[] = [];
+  let current = '';
+  for (const text of texts.map(t => t.slice(0, BATCH_CHARS))) {
+    if (current && current.length + text.length + 2 > BATCH_CHARS) {
+      batches.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${text}` : text;
+  }
+  if (current) batches.push(current);
+  return batches;
+}
+
+async function complete(instruction: string, text: string, options: SummaryOptions): Promise<string> {
+  const reply = await options.provider.chat(
+    [{ role: 'system', content: instruction }, { role: 'user', content: text }],
+    options.chatModel,
+    { temperature: 0.2, signal: options.signal }
+  );
+  return reply.trim();
+}
+
+// Summarize texts of any length: summarize each batch, then merge the summaries until one is left
+async function mapReduce(texts: string[], options: SummaryOptions, instruction = MAP_PROMPT): Promise<string> {
+  let current = texts;
+  while (true) {
+    const summaries: string[] = [];
+    for (const batch of packTexts(current)) {
+      summaries.push(await complete(instruction, batch, options));
+    }
+    if (summaries.length <= 1) return summaries[0] ?? '';
+    current = summaries;
+    instruction = REDUCE_PROMPT;
+  }
+}
+
+async function suggestQuestions(summary: string, sections: SectionSummary[], options: SummaryOptions): Promise<string[]> {
+  const outline = sections.map(s => `- ${s.section}: ${s.summary}`).join('\n');
+  const reply = await complete(
+    `Suggest ${SUGGESTED_QUESTIONS} short, specific questions a reader could ask about this PDF document and have answered by it. Write them in the language of the summary, one per line, with no numbering or other text.`,
+    outline ? `Summary:\n${summary}\n\nSections:\n${outline}` : `Summary:\n${summary}`,
+    options
+  );
+  return reply
+    .split('\n')
+    .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+    .filter(line => line.length > 0)
+    .slice(0, SUGGESTED_QUESTIONS);
+}
+
+// Summarize an indexed document from its stored prose chunks and save the result with it
+export async function summarizeDocument(
+  documentId: number,
+  options: SummaryOptions,
+  onProgress?: (progress: SummaryProgress) => void
+): Promise<DocumentSummary> {
+  const { rows } = await pool.query(
+    `SELECT text, section_path FROM pdf_chunks
+     WHERE document_id = $1 AND chunk_type = 'text'
+     ORDER BY chunk_index`,
+    [documentId]
+  );
+
+  // Top-level sections in document order; chunks before the first heading form their own group
+  const groups = new Map<string, string[]>();
+  for (const row of rows) {
+    const section = row.section_path ? row.section_path.split(SECTION_SEPARATOR)[0] : '';
+    if (!groups.has(section)) groups.set(section, []);
+    groups.get(section)!.push(row.text);
+  }
+  // Without a useful outline, the document is summarized as a whole
+  const bySection = [...groups.keys()].filter(Boolean).length >= 2;
+  const total = (bySection ? groups.size : 0) + 1;
+  onProgress?.({ done: 0, total });
+
+  let sectionSummaries: SectionSummary[] = [];
+  let summary: string;
+  if (bySection) {
+    for (const [section, texts] of groups) {
+      sectionSummaries.push({ section, summary: await mapReduce(texts, options) });
+      onProgress?.({ done: sectionSummaries.length, total });
+    }
+    summary = await mapReduce(sectionSummaries.map(s => s.section ? `${s.section}: ${s.summary}` : s.summary), options, REDUCE_PROMPT);
+    // Text before the first heading counts towards the document summary only
+    sectionSummaries = sectionSummaries.filter(s => s.section);
+  } else {
+    summary = await mapReduce(rows.map(row => row.text), options);
+  }
+
+  const suggestedQuestions = summary ? await suggestQuestions(summary, sectionSummaries, options) : [];
+  onProgress?.({ done: total, total });
+
+  await pool.query(
+    `UPDATE documents SET summary = $2, section_summaries = $3, suggested_questions = $4 WHERE id = $1`,
+    [documentId, summary || null, JSON.stringify(sectionSummaries), JSON.stringify(suggestedQuestions)]
+  );
+  return { summary, sectionSummaries, suggestedQuestions };
+}
@@ -1,28 +1,226 @@
 import { useState, useRef, FormEvent, useEffect } from 'react';
 import Markdown from 'react-markdown';
-import { Upload, Send, FileText, Loader2, FileUp, Trash2, Settings, X } from 'lucide-react';
+import { Upload, Send, FileText, Loader2, FileUp, Trash2, Settings, X, Square, Table, MessageSquare, Pencil, LogOut, Download, FileInput, Braces, Bot, GitCompare, Scale } from 'lucide-react';
+import { apiFetch } from './api.ts';
+import LoginScreen, { type Session } from './LoginScreen.tsx';
+import ComparisonView from './ComparisonView.tsx';
+import ExtractionPanel from './ExtractionPanel.tsx';
+import PdfViewer, { type Highlight, type ViewerSelection } from './PdfViewer.tsx';
+import ModelSelect, { type OllamaModel, type OllamaModelDetails } from './ModelSelect.tsx';
+
+type Source = {
+  chunkId: number;
+  documentId: number;
+  filename: string;
+  pageNumber: number;
+  endPageNumber: number;
+  // Character offsets into the page text, to highlight the passage; null for tables
+  startOffset: number | null;
+  endOffset: number | null;
+  chunkType: 'text' | 'table';
+  sectionPath: string | null;
+  score: number;
+  snippet: string;
+};
+
+// Tool call of the agent and, once it ran, a summary of its result
+type AgentStep = {
+  step: number;
+  tool: string;
+  arguments: Record<string, unknown>;
+  summary?: string;
+};
 
 type Message = {
   role: 'user' | 'model';
   text: string;
+  // Passage selected in the viewer that the question is about
+  quote?: string;
+  sources?: Source[];
+  // Search query used for retrieval, when it differs from the question as typed
+  query?: string;
+  // Lookups of the agent that led to the answer
+  steps?: AgentStep[];
+  // Starter questions offered under a greeting
+  suggestions?: string[];
   isGreeting?: boolean;
+  isStreaming?: boolean;
+};
+
+type ProviderName = 'ollama' | 'openai' | 'gemini';
+
+const PROVIDERS: Record<ProviderName, { label: string, defaultUrl: string }> = {
+  ollama: { label: 'Ollama', defaultUrl: 'http://localhost:11434' },
+  openai: { label: 'OpenAI-compatible', defaultUrl: 'http://localhost:8080/v1' },
+  gemini: { label: 'Gemini', defaultUrl: '' },
+};
+
+type DocumentInfo = {
+  id: number;
+  filename: string;
+  pageCount: number | null;
+  uploadedAt: string;
+  embeddingProvider: ProviderName;
+  embeddingModel: string | null;
+  status: 'queued' | 'indexing' | 'ready' | 'failed';
+  chunkTotal: number | null;
+  chunkCount?: number;
+  metadata?: { title: string | null, author: string | null } | null;
+  summary?: string | null;
+  suggestedQuestions?: string[];
+};
+
+type ConversationInfo = {
+  id: number;
+  title: string;
+  documentIds: number[];
+  messageCount: number;
+  updatedAt: string;
 };
 
+// A heading from the document outline; path joins the titles of its parents, e.g. "3 Safety > 3.2 Electrical"
+type Section = { title: string, level: number, page: number, path: string };
+
+// Greeting after indexing, with the document summary when one was generated
+function indexedGreeting(intro: string, summary?: string | null, suggestions?: string[]): Message {
+  const text = summary
+    ? `${intro}\n\n**Resumo:** ${summary}\n\nO que você gostaria de saber sobre ele?`
+    : `${intro} O que você gostaria de saber sobre ele?`;
+  return { role: 'model', text, suggestions, isGreeting: true };
+}
+
+// Read an NDJSON response body, calling onEvent for each parsed line
+async function readNdjson(response: Response, onEvent: (data: any) => void | Promise<void>) {
+  const reader = response.body?.getReader();
+  if (!reader) return;
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      let data;
+      try {
+        data = JSON.parse(line);
+      } catch (e) {
+        console.error('Error parsing stream line:', e);
+        continue;
+      }
+      await onEvent(data);
+    }
+  }
+}
+
 export default function App() {
-  const [pdfFile, setPdfFile] = useState<File | null>(null);
+  // undefined while the session is being checked
+  const [session, setSession] = useState<Session | null | undefined>(undefined);
+
+  useEffect(() => {
+    fetch('/api/auth/me')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => setSession(data))
+      .catch(() => setSession(null));
+    const expire = () => setSession(null);
+    window.addEventListener('session-expired', expire);
+    return () => window.removeEventListener('session-expired', expire);
+  }, []);
+
+  const logout = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' }).catch(() => {});
+    setSession(null);
+  };
+
+  if (session === undefined) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-slate-50">
+        <Loader2 className="w-6 h-6 animate-spin text-slate-400" />
+      </div>
+    );
+  }
+  if (!session) return <LoginScreen onSignedIn={setSession} />;
+  // Keyed by workspace, so nothing from a previous session survives signing in again
+  return <Workspace key={session.workspace.id} session={session} onLogout={logout} />;
+}
+
+function Workspace({ session, onLogout }: { session: Session, onLogout: () => void }) {
+  const [documents, setDocuments] = useState<DocumentInfo[]>([]);
+  const [selectedDocIds, setSelectedDocIds] = useState<number[]>([]);
+  const [activeDocId, setActiveDocId] = useState<number | null>(null);
+  // Page the viewer was sent to, and the source opened there
+  const [previewTarget, setPreviewTarget] = useState<{ pageNumber: number, chunkId: number | null } | null>(null);
+  // Sources highlighted in the viewer: those of the answer a source was opened from
+  const [highlights, setHighlights] = useState<Highlight[]>([]);
+  // Side panel: chat, or extraction of fields with a JSON Schema
+  const [panelMode, setPanelMode] = useState<'chat' | 'extract'>('chat');
+  const [uploadingFile, setUploadingFile] = useState<File | null>(null);
   const [pdfDataUri, setPdfDataUri] = useState<string | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
+  const [conversations, setConversations] = useState<ConversationInfo[]>([]);
+  const [conversationId, setConversationId] = useState<number | null>(null);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isIndexing, setIsIndexing] = useState(false);
   const [indexProgress, setIndexProgress] = useState(0);
+  // Indexing job followed in the UI; it keeps running on the server if the page is closed
+  const [indexingJob, setIndexingJob] = useState<{ id: number, filename: string } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const chatAbortRef = useRef<AbortController | null>(null);
 
   // Settings State
   const [showSettings, setShowSettings] = useState(false);
-  const [ollamaUrl, setOllamaUrl] = useState('http://localhost:11434');
-  const [ollamaChatModel, setOllamaChatModel] = useState('qwen2.5-coder:7b');
-  const [ollamaEmbeddingModel, setOllamaEmbeddingModel] = useState('qwen2.5-coder:7b');
+  const [provider, setProvider] = useState<ProviderName>('ollama');
+  const [baseUrl, setBaseUrl] = useState(PROVIDERS.ollama.defaultUrl);
+  const [apiKey, setApiKey] = useState('');
+  const [chatModel, setChatModel] = useState('qwen2.5-coder:7b');
+  const [embeddingModel, setEmbeddingModel] = useState('nomic-embed-text');
+  // Size of the embeddings of embeddingModel, once checked
+  const [embeddingDimension, setEmbeddingDimension] = useState<number | null>(null);
+  const [retrievalMode, setRetrievalMode] = useState<'hybrid' | 'vector' | 'keyword'>('hybrid');
+  const [vectorWeight, setVectorWeight] = useState(1);
+  const [keywordWeight, setKeywordWeight] = useState(1);
+  const [rewriteQuery, setRewriteQuery] = useState(true);
+  const [queryVariants, setQueryVariants] = useState(0);
+  const [topK, setTopK] = useState(3);
+  const [minScore, setMinScore] = useState(0);
+  const [reranker, setReranker] = useState<'none' | 'llm' | 'cross-encoder'>('none');
+  const [rerankerUrl, setRerankerUrl] = useState('http://localhost:8081/rerank');
+  // Agent mode: the model looks things up with tools over several steps (Ollama only)
+  const [agentMode, setAgentMode] = useState(false);
+  const [agentSteps, setAgentSteps] = useState(6);
+  // Comparison questions: passages are retrieved from each selected document
+  const [compareMode, setCompareMode] = useState(false);
+  // Documents shown in the version diff, base first
+  const [comparedDocIds, setComparedDocIds] = useState<[number, number] | null>(null);
+  const [chunkStrategy, setChunkStrategy] = useState<'sentence' | 'paragraph' | 'fixed'>('sentence');
+  const [chunkUnit, setChunkUnit] = useState<'chars' | 'tokens'>('chars');
+  const [chunkSize, setChunkSize] = useState(1000);
+  const [chunkOverlap, setChunkOverlap] = useState(200);
+  const [chunkAcrossPages, setChunkAcrossPages] = useState(true);
+  // Models installed on the Ollama server, null when they could not be listed
+  const [ollamaModels, setOllamaModels] = useState<OllamaModel[] | null>(null);
+  const [modelsError, setModelsError] = useState<string | null>(null);
+  const [embeddingDetails, setEmbeddingDetails] = useState<OllamaModelDetails | null>(null);
+  const [embeddingCheck, setEmbeddingCheck] = useState<{ checking: boolean, error?: string } | null>(null);
+  const [sections, setSections] = useState<Section[]>([]);
+  const [sectionFilter, setSectionFilter] = useState('');
+  const [pageFrom, setPageFrom] = useState('');
+  const [pageTo, setPageTo] = useState('');
+
+  const selectedDocs = documents.filter(d => selectedDocIds.includes(d.id));
+  const previewSrc = pdfDataUri || (activeDocId !== null ? `/api/documents/${activeDocId}/file` : null);
+  const hasWorkspace = isIndexing || selectedDocIds.length > 0;
+  // Selected documents whose chunks were embedded with another model than the one searched with
+  const mismatchedDocs = selectedDocs.filter(d =>
+    d.status === 'ready' && d.embeddingModel && (d.embeddingModel !== embeddingModel || d.embeddingProvider !== provider)
+  );
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -32,114 +230,543 @@ export default function App() {
     scrollToBottom();
   }, [messages]);
 
+  const loadDocuments = async () => {
+    try {
+      const response = await apiFetch('/api/documents');
+      if (!response.ok) throw new Error('Falha ao carregar documentos');
+      const data = await response.json();
+      setDocuments(data.documents);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const loadConversations = async () => {
+    try {
+      const response = await apiFetch('/api/conversations');
+      if (!response.ok) throw new Error('Falha ao carregar conversas');
+      const data = await response.json();
+      setConversations(data.conversations);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  // Settings saved for the account, over the server defaults
+  const loadSettings = async () => {
+    try {
+      const response = await apiFetch('/api/settings');
+      if (!response.ok) throw new Error('Falha ao carregar as configurações');
+      const { settings } = await response.json();
+      setProvider(settings.provider);
+      setBaseUrl(settings.baseUrl);
+      setChatModel(settings.chatModel);
+      setEmbeddingModel(settings.embeddingModel);
+      setEmbeddingDimension(settings.embeddingDimension);
+      setRetrievalMode(settings.retrievalMode);
+      setVectorWeight(settings.vectorWeight);
+      setKeywordWeight(settings.keywordWeight);
+      setRewriteQuery(settings.rewriteQuery);
+      setQueryVariants(settings.queryVariants);
+      setTopK(settings.topK);
+      setMinScore(settings.minScore);
+      setReranker(settings.reranker);
+      setRerankerUrl(settings.rerankerUrl);
+      setAgentSteps(settings.agentSteps);
+      setChunkStrategy(settings.chunkStrategy);
+      setChunkUnit(settings.chunkUnit);
+      setChunkSize(settings.chunkSize);
+      setChunkOverlap(settings.chunkOverlap);
+      setChunkAcrossPages(settings.chunkAcrossPages);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  useEffect(() => {
+    loadSettings();
+    loadDocuments();
+    loadConversations();
+    reconnectToJob();
+  }, []);
+
+  // Installed models, for the model dropdowns; listed again when the Ollama URL changes
+  useEffect(() => {
+    if (!showSettings || provider !== 'ollama') return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await apiFetch(`/api/models/ollama?baseUrl=${encodeURIComponent(baseUrl)}`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Falha ao listar os modelos');
+        if (cancelled) return;
+        setOllamaModels(data.models);
+        setModelsError(null);
+      } catch (error: any) {
+        if (cancelled) return;
+        setOllamaModels(null);
+        setModelsError(error.message);
+      }
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [showSettings, provider, baseUrl]);
+
+  // Details of the installed embedding model, to tell embedding models from chat models
+  useEffect(() => {
+    setEmbeddingDetails(null);
+    if (!showSettings || provider !== 'ollama' || !ollamaModels?.some(m => m.name === embeddingModel)) return;
+    let cancelled = false;
+    apiFetch(`/api/models/ollama/show?baseUrl=${encodeURIComponent(baseUrl)}&name=${encodeURIComponent(embeddingModel)}`)
+      .then(response => response.ok ? response.json() : null)
+      .then(data => { if (!cancelled && data) setEmbeddingDetails(data.model); })
+      .catch(error => console.error(error));
+    return () => { cancelled = true; };
+  }, [showSettings, provider, baseUrl, embeddingModel, ollamaModels]);
+
+  const changeEmbeddingModel = (model: string) => {
+    setEmbeddingModel(model);
+    setEmbeddingDimension(null);
+    setEmbeddingCheck(null);
+  };
+
+  // Embed a test text with the embedding model; the server records the size of its embeddings
+  const checkEmbeddingModel = async () => {
+    setEmbeddingCheck({ checking: true });
+    try {
+      const response = await apiFetch('/api/models/check-embedding', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ provider, baseUrl, apiKey, embeddingModel }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Falha ao verificar o modelo');
+      setEmbeddingDimension(data.dimension);
+      setEmbeddingCheck({ checking: false });
+    } catch (error: any) {
+      setEmbeddingDimension(null);
+      setEmbeddingCheck({ checking: false, error: error.message });
+    }
+  };
+
+  // Close the settings, saving them for the account (API keys stay in the browser)
+  const closeSettings = async () => {
+    setShowSettings(false);
+    try {
+      const response = await apiFetch('/api/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          provider, baseUrl, chatModel, embeddingModel, embeddingDimension,
+          retrievalMode, vectorWeight, keywordWeight, rewriteQuery, queryVariants, topK, minScore, reranker, rerankerUrl, agentSteps,
+          chunkStrategy, chunkUnit, chunkSize, chunkOverlap, chunkAcrossPages,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+    } catch (error: any) {
+      alert(`As configurações não foram salvas: ${error.message}`);
+    }
+  };
+
+  // Section filter: headings of the selected document (paths differ between documents, so only one at a time)
+  const sectionDocId = selectedDocIds.length === 1 ? selectedDocIds[0] : null;
+  useEffect(() => {
+    setSectionFilter('');
+    setSections([]);
+    if (sectionDocId === null) return;
+    let cancelled = false;
+    apiFetch(`/api/documents/${sectionDocId}/sections`)
+      .then(response => response.ok ? response.json() : { sections: [] })
+      .then(data => { if (!cancelled) setSections(data.sections); })
+      .catch(error => console.error(error));
+    return () => { cancelled = true; };
+  }, [sectionDocId]);
+
+  // Follow an indexing job to its end, reconnecting when the stream drops (e.g. a server restart)
+  const followJob = async (jobId: number, filename: string) => {
+    setIndexingJob({ id: jobId, filename });
+    setIsIndexing(true);
+    setIndexProgress(0);
+
+    try {
+      let finished = false;
+      while (!finished) {
+        try {
+          const response = await apiFetch(`/api/jobs/${jobId}?stream=true`);
+          if (!response.ok) {
+            const errorData = await response.json().catch(() => ({}));
+            throw new Error(errorData.error || 'Falha ao acompanhar a indexação');
+          }
+
+          await readNdjson(response, async (data) => {
+            if (data.status === 'job') {
+              setIndexProgress(data.job.progress?.progress ?? 0);
+            } else if (data.status === 'parsing') {
+              await loadDocuments();
+            } else if (data.status === 'progress') {
+              setIndexProgress(data.progress);
+            } else if (data.status === 'summarizing') {
+              setMessages([{ role: 'model', text: `Gerando o resumo do documento (${data.current}/${data.total})...`, isGreeting: true }]);
+            } else if (data.status === 'error') {
+              finished = true;
+              setMessages([{ role: 'model', text: `Erro ao processar PDF: ${data.error}`, isGreeting: true }]);
+            } else if (data.status === 'cancelled') {
+              finished = true;
+              setMessages([{ role: 'model', text: `A indexação de ${filename} foi cancelada. Você pode retomá-la pela lista de documentos.`, isGreeting: true }]);
+            } else if (data.status === 'complete') {
+              finished = true;
+              await loadDocuments();
+              setSelectedDocIds([data.documentId]);
+              selectPreview(data.documentId);
+              const intro = data.reused > 0
+                ? `PDF indexado com sucesso! ${data.reused} trechos foram reaproveitados e ${data.embedded} foram processados.`
+                : 'PDF indexado com sucesso!';
+              setMessages([indexedGreeting(intro, data.summary, data.suggestedQuestions)]);
+            }
+          });
+        } catch (error) {
+          // Network failures are retried; the job itself keeps running on the server
+          if (!(error instanceof TypeError)) throw error;
+        }
+        if (!finished) await new Promise(resolve => setTimeout(resolve, 2000));
+      }
+    } catch (error: any) {
+      console.error(error);
+      setMessages([{ role: 'model', text: `Erro ao processar PDF: ${error.message}`, isGreeting: true }]);
+    } finally {
+      await loadDocuments();
+      setIndexingJob(null);
+      setIsIndexing(false);
+      setIndexProgress(0);
+    }
+  };
+
+  // Pick up an indexing job that is still queued or running, e.g. after a page reload
+  const reconnectToJob = async () => {
+    try {
+      const response = await apiFetch('/api/jobs?status=running,queued&limit=1');
+      if (!response.ok) return;
+      const { jobs } = await response.json();
+      if (jobs.length === 0) return;
+      setMessages([{ role: 'model', text: `Indexando ${jobs[0].filename}...`, isGreeting: true }]);
+      await followJob(jobs[0].id, jobs[0].filename);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const cancelIndexing = async () => {
+    if (!indexingJob) return;
+    try {
+      const response = await apiFetch(`/api/jobs/${indexingJob.id}/cancel`, { method: 'POST' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Falha ao cancelar a indexação');
+      }
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = '';
     if (!file) return;
     if (file.type !== 'application/pdf') {
       alert('Por favor, envie um arquivo PDF.');
       return;
     }
 
-    setPdfFile(file);
+    setUploadingFile(file);
     const objectUrl = URL.createObjectURL(file);
     setPdfDataUri(objectUrl);
 
-    // Upload to backend for indexing
+    // Upload to backend, which queues the PDF for indexing
     setIsIndexing(true);
     setIndexProgress(0);
+    setConversationId(null);
     setMessages([{ role: 'model', text: 'Processando e indexando o PDF...', isGreeting: true }]);
 
+    let job: { id: number, filename: string } | null = null;
     try {
       const formData = new FormData();
       formData.append('file', file);
-      formData.append('ollamaUrl', ollamaUrl);
-      formData.append('embeddingModel', ollamaEmbeddingModel);
+      formData.append('provider', provider);
+      formData.append('baseUrl', baseUrl);
+      formData.append('apiKey', apiKey);
+      formData.append('embeddingModel', embeddingModel);
+      formData.append('chatModel', chatModel);
+      formData.append('chunkStrategy', chunkStrategy);
+      formData.append('chunkUnit', chunkUnit);
+      formData.append('chunkSize', String(chunkSize));
+      formData.append('chunkOverlap', String(chunkOverlap));
+      formData.append('chunkAcrossPages', String(chunkAcrossPages));
 
-      const response = await fetch('/api/upload', {
+      const response = await apiFetch('/api/upload', {
         method: 'POST',
         body: formData,
       });
-
+      const data = await response.json();
       if (!response.ok) {
-        throw new Error('Falha ao conectar com o servidor para indexação');
+        throw new Error(data.error || 'Falha ao conectar com o servidor para indexação');
       }
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      let buffer = '';
-
-      if (reader) {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
-
-          for (const line of lines) {
-            if (!line.trim()) continue;
-            try {
-              const data = JSON.parse(line);
-              if (data.status === 'progress') {
-                setIndexProgress(data.progress);
-              } else if (data.status === 'error') {
-                throw new Error(data.error);
-              } else if (data.status === 'complete') {
-                setMessages([{ role: 'model', text: 'PDF indexado com sucesso! O que você gostaria de saber sobre ele?', isGreeting: true }]);
-              }
-            } catch (e: any) {
-              if (e.message !== 'Unexpected end of JSON input') {
-                console.error('Error parsing stream line:', e);
-              }
-            }
-          }
-        }
+      await loadDocuments();
+      setSelectedDocIds([data.document.id]);
+      selectPreview(data.document.id);
+      if (data.duplicate) {
+        setMessages([indexedGreeting(
+          'Este PDF já estava indexado, nada precisou ser reprocessado.',
+          data.document.summary,
+          data.document.suggestedQuestions
+        )]);
+      } else {
+        job = { id: data.job.id, filename: data.document.filename };
       }
     } catch (error: any) {
       console.error(error);
+      await loadDocuments();
       setMessages([{ role: 'model', text: `Erro ao processar PDF: ${error.message}`, isGreeting: true }]);
     } finally {
-      setIsIndexing(false);
-      setIndexProgress(0);
+      URL.revokeObjectURL(objectUrl);
+      setPdfDataUri(null);
+      setUploadingFile(null);
+      if (!job) setIsIndexing(false);
     }
+
+    // The stored PDF is previewed from now on, while the server indexes it
+    if (job) await followJob(job.id, job.filename);
   };
 
-  const clearPdf = () => {
-    if (pdfDataUri) {
-      URL.revokeObjectURL(pdfDataUri);
+  // Continue an interrupted or cancelled indexing run; chunks committed before are kept
+  const resumeDocument = async (doc: DocumentInfo) => {
+    setConversationId(null);
+    setMessages([{ role: 'model', text: `Retomando a indexação de ${doc.filename}...`, isGreeting: true }]);
+
+    try {
+      const response = await apiFetch(`/api/documents/${doc.id}/resume`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ provider, baseUrl, apiKey, chatModel }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Falha ao retomar a indexação');
+      }
+      await loadDocuments();
+      await followJob(data.job.id, doc.filename);
+    } catch (error: any) {
+      console.error(error);
+      setMessages([{ role: 'model', text: `Erro ao processar PDF: ${error.message}`, isGreeting: true }]);
+    }
+  };
+
+  // Restore an index snapshot exported on another server; it must match the embedding model set here
+  const handleSnapshotImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsIndexing(true);
+    setConversationId(null);
+    setMessages([{ role: 'model', text: `Importando o índice de ${file.name}...`, isGreeting: true }]);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('provider', provider);
+      formData.append('baseUrl', baseUrl);
+      formData.append('apiKey', apiKey);
+      formData.append('embeddingModel', embeddingModel);
+
+      const response = await apiFetch('/api/documents/import', { method: 'POST', body: formData });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Falha ao importar o índice');
+      }
+      await loadDocuments();
+      setSelectedDocIds([data.document.id]);
+      setMessages([indexedGreeting(
+        `Índice de **${data.document.filename}** importado sem reprocessar os embeddings.`,
+        data.document.summary,
+        data.document.suggestedQuestions
+      )]);
+    } catch (error: any) {
+      console.error(error);
+      setMessages([{ role: 'model', text: `Erro ao importar o índice: ${error.message}`, isGreeting: true }]);
+    } finally {
+      setIsIndexing(false);
     }
-    setPdfFile(null);
-    setPdfDataUri(null);
+  };
+
+  const changeProvider = (next: ProviderName) => {
+    // Swap the URL too, unless the user typed a custom one
+    if (baseUrl === PROVIDERS[provider].defaultUrl) setBaseUrl(PROVIDERS[next].defaultUrl);
+    setProvider(next);
+  };
+
+  const toggleDocument = (id: number) => {
+    setSelectedDocIds((prev) => prev.includes(id) ? prev.filter(d => d !== id) : [...prev, id]);
+    if (activeDocId === null) selectPreview(id);
+  };
+
+  const selectPreview = (id: number) => {
+    setActiveDocId(id);
+    setPreviewTarget(null);
+  };
+
+  const selectAllDocuments = () => {
+    setSelectedDocIds(documents.map(d => d.id));
+  };
+
+  const clearConversation = () => {
+    setConversationId(null);
     setMessages([]);
+    setHighlights([]);
     setInput('');
   };
 
-  const handleSubmit = async (e: FormEvent) => {
+  // Resume a saved conversation with the documents it was about
+  const openConversation = async (conversation: ConversationInfo) => {
+    try {
+      const response = await apiFetch(`/api/conversations/${conversation.id}`);
+      if (!response.ok) throw new Error('Falha ao carregar a conversa');
+      const data = await response.json();
+      setConversationId(conversation.id);
+      setMessages(data.conversation.messages.map((m: any) => ({
+        role: m.role === 'assistant' ? 'model' : 'user',
+        text: m.content,
+        sources: m.sources,
+      })));
+      const ids = data.conversation.documentIds.filter((id: number) => documents.some(d => d.id === id));
+      if (ids.length > 0) {
+        setSelectedDocIds(ids);
+        selectPreview(ids[0]);
+      }
+    } catch (error: any) {
+      alert(error.message);
+    }
+  };
+
+  const renameConversation = async (conversation: ConversationInfo) => {
+    const title = prompt('Novo nome da conversa', conversation.title)?.trim();
+    if (!title || title === conversation.title) return;
+    const response = await apiFetch(`/api/conversations/${conversation.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title }),
+    });
+    if (!response.ok) {
+      const errorData = await response.json();
+      alert(errorData.error || 'Falha ao renomear a conversa');
+    }
+    await loadConversations();
+  };
+
+  const deleteConversation = async (conversation: ConversationInfo) => {
+    if (!confirm(`Excluir a conversa "${conversation.title}"?`)) return;
+    await apiFetch(`/api/conversations/${conversation.id}`, { method: 'DELETE' });
+    if (conversation.id === conversationId) clearConversation();
+    await loadConversations();
+  };
+
+  // Replace the in-progress assistant message (or append one) with its final text
+  const finishModelMessage = (text: string, sources?: Source[], query?: string) => {
+    setMessages((prev) => {
+      const last = prev[prev.length - 1];
+      const rest = last?.isStreaming ? prev.slice(0, -1) : prev;
+      return [...rest, { role: 'model', text, sources, query, steps: last?.isStreaming ? last.steps : undefined }];
+    });
+  };
+
+  // Update the steps of the in-progress assistant message
+  const updateSteps = (update: (steps: AgentStep[]) => AgentStep[]) => {
+    setMessages((prev) => {
+      const last = prev[prev.length - 1];
+      if (!last?.isStreaming) return prev;
+      return [...prev.slice(0, -1), { ...last, steps: update(last.steps ?? []) }];
+    });
+  };
+
+  const openSource = (source: Highlight, sources: Highlight[]) => {
+    setActiveDocId(source.documentId);
+    setPreviewTarget({ pageNumber: source.pageNumber, chunkId: source.chunkId });
+    setHighlights(sources);
+  };
+
+  // Version diff of the two selected documents, the earlier upload as the base
+  const openComparison = () => {
+    const [first, second] = [...selectedDocs].sort((a, b) => a.uploadedAt.localeCompare(b.uploadedAt) || a.id - b.id);
+    setComparedDocIds([first.id, second.id]);
+  };
+
+  const openComparedPage = (documentId: number, pageNumber: number) => {
+    setComparedDocIds(null);
+    setActiveDocId(documentId);
+    setPreviewTarget({ pageNumber, chunkId: null });
+    setHighlights([]);
+  };
+
+  // Ask about a passage selected in the viewer; the selection goes to the model as extra context
+  const explainSelection = (selection: ViewerSelection) => {
+    setPanelMode('chat');
+    sendMessage('Explique este trecho.', { ...selection, documentId: activeDocId });
+  };
+
+  const stopGeneration = () => {
+    chatAbortRef.current?.abort();
+  };
+
+  const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || !pdfFile || isIndexing) return;
+    sendMessage(input);
+  };
 
-    const userMessage = input.trim();
-    setInput('');
-    setMessages((prev) => [...prev, { role: 'user', text: userMessage }]);
+  const sendMessage = async (text: string, selection?: ViewerSelection & { documentId: number | null }) => {
+    if (!text.trim() || selectedDocIds.length === 0 || isIndexing || isLoading) return;
+
+    const userMessage = text.trim();
+    if (!selection) setInput('');
+    setMessages((prev) => [...prev, { role: 'user', text: userMessage, quote: selection?.text }]);
     setIsLoading(true);
 
-    try {
-      const history = messages.filter(m => !m.isGreeting).map(m => ({
-        role: m.role === 'model' ? 'assistant' : 'user',
-        text: m.text
-      }));
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    let reply = '';
+    let sources: Source[] = [];
+    let query: string | undefined;
 
-      const response = await fetch('/api/chat', {
+    try {
+      const response = await apiFetch('/api/chat', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           message: userMessage,
-          history,
-          ollamaUrl,
-          chatModel: ollamaChatModel,
-          embeddingModel: ollamaEmbeddingModel
-        })
+          selection,
+          conversationId,
+          provider,
+          baseUrl,
+          apiKey,
+          chatModel,
+          embeddingModel,
+          documentIds: selectedDocIds,
+          sections: sectionFilter ? [sectionFilter] : [],
+          pageRange: { from: pageFrom || null, to: pageTo || null },
+          retrievalMode,
+          hybridWeights: { vector: vectorWeight, keyword: keywordWeight },
+          rewriteQuery,
+          queryVariants,
+          topK,
+          minScore,
+          reranker,
+          rerankerUrl: reranker === 'cross-encoder' ? rerankerUrl : undefined,
+          agent: (agentMode && provider === 'ollama') || undefined,
+          maxSteps: agentMode ? agentSteps : undefined,
+          compare: (compareMode && selectedDocIds.length > 1) || undefined,
+        }),
+        signal: controller.signal,
       });
 
       if (!response.ok) {
@@ -147,31 +774,73 @@ export default function App() {
         throw new Error(errorData.error || 'Falha ao gerar resposta');
       }
 
-      const data = await response.json();
+      setMessages((prev) => [...prev, { role: 'model', text: '', isStreaming: true }]);
+
+      await readNdjson(response, (data) => {
+        if (data.status === 'token') {
+          reply += data.token;
+          const text = reply;
+          setMessages((prev) => {
+            const last = prev[prev.length - 1];
+            if (!last?.isStreaming) return prev;
+            return [...prev.slice(0, -1), { ...last, text }];
+          });
+        } else if (data.status === 'conversation') {
+          setConversationId(data.conversation.id);
+        } else if (data.status === 'query') {
+          const searched = [data.query, ...data.variants];
+          if (searched.length > 1 || data.query !== data.original) query = searched.join(' · ');
+        } else if (data.status === 'sources') {
+          sources = data.sources;
+        } else if (data.status === 'tool_call') {
+          updateSteps(steps => [...steps, { step: data.step, tool: data.tool, arguments: data.arguments }]);
+        } else if (data.status === 'tool_result') {
+          // Results arrive in call order, so they belong to the last step still waiting for one
+          updateSteps(steps => {
+            const i = steps.findIndex(step => step.summary === undefined);
+            return i < 0 ? steps : steps.map((step, j) => j === i ? { ...step, summary: data.summary } : step);
+          });
+        } else if (data.status === 'error') {
+          throw new Error(data.error);
+        } else if (data.status === 'complete') {
+          reply = data.reply;
+        }
+      });
 
-      setMessages((prev) => [
-        ...prev,
-        { role: 'model', text: data.reply || 'Sem resposta.' },
-      ]);
+      finishModelMessage(reply || 'Sem resposta.', sources, query);
     } catch (error: any) {
-      console.error(error);
-      setMessages((prev) => [
-        ...prev,
-        { role: 'model', text: `Desculpe, ocorreu um erro: ${error.message}` },
-      ]);
+      if (error.name === 'AbortError') {
+        finishModelMessage(reply ? `${reply}\n\n_(resposta interrompida)_` : '_Resposta interrompida._', sources, query);
+      } else {
+        console.error(error);
+        finishModelMessage(`Desculpe, ocorreu um erro: ${error.message}`);
+      }
     } finally {
+      chatAbortRef.current = null;
       setIsLoading(false);
+      loadConversations();
     }
   };
 
+  const lastMessage = messages[messages.length - 1];
+  const isAwaitingFirstToken = isLoading && !(lastMessage?.isStreaming && lastMessage.text);
+
   return (
     <div className="flex h-screen bg-slate-50 font-sans relative">
+      {comparedDocIds && (
+        <ComparisonView
+          documentIds={comparedDocIds}
+          onClose={() => setComparedDocIds(null)}
+          onOpenPage={openComparedPage}
+        />
+      )}
+
       {/* Settings Modal */}
       {showSettings && (
         <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
-          <div className="bg-white rounded-2xl shadow-xl w-full max-w-md p-6 relative">
+          <div className="bg-white rounded-2xl shadow-xl w-full max-w-md p-6 relative max-h-[90vh] overflow-y-auto">
             <button 
-              onClick={() => setShowSettings(false)}
+              onClick={closeSettings}
               className="absolute top-4 right-4 text-slate-400 hover:text-slate-600"
             >
               <X className="w-5 h-5" />
@@ -180,43 +849,268 @@ export default function App() {
             
             <div className="space-y-4">
               <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">Ollama URL</label>
-                <input 
-                  type="text" 
-                  value={ollamaUrl} 
-                  onChange={(e) => setOllamaUrl(e.target.value)}
-                  placeholder="http://localhost:11434"
+                <label className="block text-sm font-medium text-slate-700 mb-1">Provedor</label>
+                <select
+                  value={provider}
+                  onChange={(e) => changeProvider(e.target.value as ProviderName)}
                   className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
-                />
+                >
+                  {(Object.keys(PROVIDERS) as ProviderName[]).map((name) => (
+                    <option key={name} value={name}>{PROVIDERS[name].label}</option>
+                  ))}
+                </select>
               </div>
+              {provider !== 'gemini' && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">
+                    {provider === 'ollama' ? 'Ollama URL' : 'URL base da API (com /v1)'}
+                  </label>
+                  <input 
+                    type="text" 
+                    value={baseUrl} 
+                    onChange={(e) => setBaseUrl(e.target.value)}
+                    placeholder={PROVIDERS[provider].defaultUrl}
+                    className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+                  />
+                </div>
+              )}
+              {provider !== 'ollama' && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Chave de API</label>
+                  <input
+                    type="password"
+                    value={apiKey}
+                    onChange={(e) => setApiKey(e.target.value)}
+                    placeholder={provider === 'gemini' ? 'Usa GEMINI_API_KEY do servidor se vazio' : 'Opcional'}
+                    className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+                  />
+                </div>
+              )}
+              {provider === 'ollama' && modelsError && (
+                <p className="text-xs text-amber-600">Não foi possível listar os modelos do Ollama: {modelsError}</p>
+              )}
               <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">Modelo de Chat (Ollama)</label>
-                <input 
-                  type="text" 
-                  value={ollamaChatModel} 
-                  onChange={(e) => setOllamaChatModel(e.target.value)}
+                <label className="block text-sm font-medium text-slate-700 mb-1">Modelo de Chat</label>
+                <ModelSelect
+                  value={chatModel}
+                  onChange={setChatModel}
+                  models={provider === 'ollama' ? ollamaModels : null}
                   placeholder="qwen2.5-coder:7b"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Modelo de Embeddings</label>
+                <div className="flex gap-2">
+                  <div className="flex-1 min-w-0">
+                    <ModelSelect
+                      value={embeddingModel}
+                      onChange={changeEmbeddingModel}
+                      models={provider === 'ollama' ? ollamaModels : null}
+                      placeholder="nomic-embed-text"
+                    />
+                  </div>
+                  <button
+                    onClick={checkEmbeddingModel}
+                    disabled={!embeddingModel || embeddingCheck?.checking}
+                    className="px-3 text-sm font-medium text-indigo-600 border border-indigo-200 rounded-lg hover:bg-indigo-50 disabled:opacity-50 transition-colors"
+                  >
+                    {embeddingCheck?.checking ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Verificar'}
+                  </button>
+                </div>
+                {embeddingCheck?.error ? (
+                  <p className="text-xs text-red-600 mt-1">{embeddingCheck.error}</p>
+                ) : embeddingDimension !== null ? (
+                  <p className="text-xs text-green-700 mt-1">Gera embeddings de {embeddingDimension} dimensões.</p>
+                ) : null}
+                {embeddingDetails && embeddingDetails.capabilities.length > 0 && !embeddingDetails.capabilities.includes('embedding') && (
+                  <p className="text-xs text-amber-600 mt-1">
+                    Este parece ser um modelo de chat, não de embeddings; a busca costuma ser melhor com um modelo como nomic-embed-text.
+                  </p>
+                )}
+                <p className="text-xs text-slate-500 mt-1">
+                  Nota: O modelo de embeddings é usado para indexar o PDF.
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Modo de busca</label>
+                <select
+                  value={retrievalMode}
+                  onChange={(e) => setRetrievalMode(e.target.value as typeof retrievalMode)}
+                  className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+                >
+                  <option value="hybrid">Híbrida (palavras-chave + vetores)</option>
+                  <option value="vector">Vetorial</option>
+                  <option value="keyword">Palavras-chave</option>
+                </select>
+              </div>
+              {retrievalMode === 'hybrid' && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">Peso vetorial</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={vectorWeight}
+                      onChange={(e) => setVectorWeight(Number(e.target.value))}
+                      className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">Peso palavras-chave</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={keywordWeight}
+                      onChange={(e) => setKeywordWeight(Number(e.target.value))}
+                      className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+                    />
+                  </div>
+                </div>
+              )}
+              <div>
+                <label className="flex items-center gap-2 text-sm text-slate-600">
+                  <input
+                    type="checkbox"
+                    checked={rewriteQuery}
+                    onChange={(e) => setRewriteQuery(e.target.checked)}
+                    className="accent-indigo-600"
+                  />
+                  Reescrever perguntas de acompanhamento
+                </label>
+                <label className="block text-xs text-slate-500 mt-2 mb-1">Variações da consulta</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={4}
+                  value={queryVariants}
+                  onChange={(e) => setQueryVariants(Number(e.target.value))}
                   className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
                 />
+                <p className="text-xs text-slate-500 mt-1">
+                  O modelo de chat reformula a pergunta antes da busca; as variações são pesquisadas e combinadas.
+                </p>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Trechos (top-k)</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={50}
+                    value={topK}
+                    onChange={(e) => setTopK(Number(e.target.value))}
+                    className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Relevância mínima</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={minScore}
+                    onChange={(e) => setMinScore(Number(e.target.value))}
+                    className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+                  />
+                </div>
               </div>
               <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">Modelo de Embeddings (Ollama)</label>
-                <input 
-                  type="text" 
-                  value={ollamaEmbeddingModel} 
-                  onChange={(e) => setOllamaEmbeddingModel(e.target.value)}
-                  placeholder="qwen2.5-coder:7b"
+                <label className="block text-sm font-medium text-slate-700 mb-1">Reclassificação</label>
+                <select
+                  value={reranker}
+                  onChange={(e) => setReranker(e.target.value as typeof reranker)}
+                  className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+                >
+                  <option value="none">Nenhuma</option>
+                  <option value="llm">Modelo de chat como juiz</option>
+                  <option value="cross-encoder">Cross-encoder local</option>
+                </select>
+                {reranker === 'cross-encoder' && (
+                  <input
+                    type="text"
+                    value={rerankerUrl}
+                    onChange={(e) => setRerankerUrl(e.target.value)}
+                    placeholder="http://localhost:8081/rerank"
+                    className="w-full mt-2 p-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+                  />
+                )}
+                <p className="text-xs text-slate-500 mt-1">
+                  Sem nenhum trecho acima da relevância mínima, a resposta é "não encontrado" sem consultar o modelo.
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Passos do modo agente</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={12}
+                  value={agentSteps}
+                  onChange={(e) => setAgentSteps(Number(e.target.value))}
                   className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
                 />
                 <p className="text-xs text-slate-500 mt-1">
-                  Nota: O modelo de embeddings é usado para indexar o PDF.
+                  No modo agente (só Ollama), o modelo consulta o documento com ferramentas até este número de rodadas antes de responder.
                 </p>
               </div>
+              <div className="pt-4 border-t border-slate-100">
+                <label className="block text-sm font-medium text-slate-700 mb-1">Divisão em trechos (indexação)</label>
+                <div className="grid grid-cols-2 gap-3">
+                  <select
+                    value={chunkStrategy}
+                    onChange={(e) => setChunkStrategy(e.target.value as typeof chunkStrategy)}
+                    className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+                  >
+                    <option value="sentence">Por frases</option>
+                    <option value="paragraph">Por parágrafos</option>
+                    <option value="fixed">Tamanho fixo</option>
+                  </select>
+                  <select
+                    value={chunkUnit}
+                    onChange={(e) => setChunkUnit(e.target.value as typeof chunkUnit)}
+                    className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+                  >
+                    <option value="chars">Caracteres</option>
+                    <option value="tokens">Tokens (aprox.)</option>
+                  </select>
+                  <div>
+                    <label className="block text-xs text-slate-500 mb-1">Tamanho</label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={chunkSize}
+                      onChange={(e) => setChunkSize(Number(e.target.value))}
+                      className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-500 mb-1">Sobreposição</label>
+                    <input
+                      type="number"
+                      min={0}
+                      value={chunkOverlap}
+                      onChange={(e) => setChunkOverlap(Number(e.target.value))}
+                      className="w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+                    />
+                  </div>
+                </div>
+                <label className="flex items-center gap-2 mt-2 text-sm text-slate-600">
+                  <input
+                    type="checkbox"
+                    checked={chunkAcrossPages}
+                    onChange={(e) => setChunkAcrossPages(e.target.checked)}
+                    className="accent-indigo-600"
+                  />
+                  Unir texto entre páginas
+                </label>
+              </div>
             </div>
             
             <div className="mt-6 flex justify-end">
               <button 
-                onClick={() => setShowSettings(false)}
+                onClick={closeSettings}
                 className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 font-medium text-sm transition-colors"
               >
                 Salvar
@@ -233,26 +1127,165 @@ export default function App() {
           <p className="text-xs text-slate-400 mt-0.5">Ask your documents anything</p>
         </div>
 
-        <div className="flex-1 p-4">
-          {pdfFile && (
+        <div className="flex-1 p-4 space-y-4 overflow-y-auto">
+          {(uploadingFile || indexingJob) && (
             <div className="rounded-xl bg-slate-50 border border-slate-200 p-3">
-              <div className="flex items-center justify-between mb-1">
-                <span className="text-xs font-semibold text-slate-500 uppercase tracking-wide">Current doc</span>
-                <button onClick={clearPdf} className="text-xs text-slate-400 hover:text-red-400 transition-colors">
-                  Change
-                </button>
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-semibold text-slate-500 uppercase tracking-wide">{uploadingFile ? 'Uploading' : 'Indexing'}</span>
+                {indexingJob && (
+                  <button onClick={cancelIndexing} className="text-xs text-slate-400 hover:text-red-500 transition-colors">
+                    Cancel
+                  </button>
+                )}
               </div>
-              <p className="text-sm text-slate-700 font-medium truncate" title={pdfFile.name}>{pdfFile.name}</p>
-              <span className={`
-                inline-flex items-center gap-1 mt-1.5 text-xs px-2 py-0.5 rounded-full font-medium
-                ${!isIndexing ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-700'}
-              `}>
-                <span className={`w-1.5 h-1.5 rounded-full
-                  ${!isIndexing ? 'bg-green-500' : 'bg-amber-500 animate-pulse'}`} />
-                {!isIndexing ? 'READY' : `PROCESSING ${indexProgress}%`}
+              <p className="text-sm text-slate-700 font-medium truncate mt-1" title={uploadingFile?.name ?? indexingJob?.filename}>
+                {uploadingFile?.name ?? indexingJob?.filename}
+              </p>
+              <span className="inline-flex items-center gap-1 mt-1.5 text-xs px-2 py-0.5 rounded-full font-medium bg-amber-100 text-amber-700">
+                <span className="w-1.5 h-1.5 rounded-full bg-amber-500 animate-pulse" />
+                {`PROCESSING ${indexProgress}%`}
               </span>
             </div>
           )}
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs font-semibold text-slate-500 uppercase tracking-wide">Documents</span>
+              <div className="flex items-center gap-2">
+                {documents.length > 1 && (
+                  <button onClick={selectAllDocuments} className="text-xs text-slate-400 hover:text-indigo-500 transition-colors">
+                    All
+                  </button>
+                )}
+                <button
+                  onClick={() => document.getElementById('pdf-input')?.click()}
+                  disabled={isIndexing}
+                  title="Upload PDF"
+                  className="text-slate-400 hover:text-indigo-500 disabled:opacity-40 transition-colors"
+                >
+                  <FileUp className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => document.getElementById('snapshot-input')?.click()}
+                  disabled={isIndexing}
+                  title="Import index snapshot"
+                  className="text-slate-400 hover:text-indigo-500 disabled:opacity-40 transition-colors"
+                >
+                  <FileInput className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            {documents.length === 0 ? (
+              <p className="text-xs text-slate-400">No documents indexed yet.</p>
+            ) : (
+              <ul className="space-y-1">
+                {documents.map((doc) => (
+                  <li
+                    key={doc.id}
+                    className={`flex items-start gap-2 rounded-lg px-2 py-1.5 ${
+                      doc.id === activeDocId ? 'bg-indigo-50' : 'hover:bg-slate-50'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedDocIds.includes(doc.id)}
+                      onChange={() => toggleDocument(doc.id)}
+                      className="mt-0.5 accent-indigo-600"
+                    />
+                    <button onClick={() => selectPreview(doc.id)} className="min-w-0 text-left flex-1">
+                      <p className="text-sm text-slate-700 font-medium truncate" title={doc.filename}>{doc.filename}</p>
+                      {(doc.metadata?.title || doc.metadata?.author) && (
+                        <p className="text-xs text-slate-500 truncate" title={[doc.metadata.title, doc.metadata.author].filter(Boolean).join(' — ')}>
+                          {[doc.metadata.title, doc.metadata.author].filter(Boolean).join(' — ')}
+                        </p>
+                      )}
+                      <p className="text-xs text-slate-400">
+                        {doc.pageCount ?? '?'} pages · {doc.chunkCount ?? 0}
+                        {doc.status !== 'ready' && doc.chunkTotal ? `/${doc.chunkTotal}` : ''} chunks
+                      </p>
+                      {doc.status === 'failed' && (
+                        <span className="inline-block mt-1 text-xs px-2 py-0.5 rounded-full font-medium bg-red-100 text-red-700">
+                          INTERRUPTED
+                        </span>
+                      )}
+                      {(doc.status === 'queued' || doc.status === 'indexing') && (
+                        <span className="inline-block mt-1 text-xs px-2 py-0.5 rounded-full font-medium bg-amber-100 text-amber-700">
+                          {doc.status.toUpperCase()}
+                        </span>
+                      )}
+                    </button>
+                    {doc.status === 'ready' && (
+                      <a
+                        href={`/api/documents/${doc.id}/snapshot`}
+                        download
+                        title="Export index snapshot"
+                        className="text-slate-300 hover:text-indigo-500 shrink-0 mt-0.5 transition-colors"
+                      >
+                        <Download className="w-3.5 h-3.5" />
+                      </a>
+                    )}
+                    {doc.status === 'failed' && (
+                      <button
+                        onClick={() => resumeDocument(doc)}
+                        disabled={isIndexing}
+                        className="text-xs text-indigo-500 hover:text-indigo-700 disabled:opacity-40 shrink-0 mt-0.5"
+                      >
+                        Resume
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {conversations.length > 0 && (
+            <div>
+              <span className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-2">Chats</span>
+              <ul className="space-y-1">
+                {conversations.map((conversation) => (
+                  <li
+                    key={conversation.id}
+                    className={`group flex items-center gap-2 rounded-lg px-2 py-1.5 ${
+                      conversation.id === conversationId ? 'bg-indigo-50' : 'hover:bg-slate-50'
+                    }`}
+                  >
+                    <button
+                      onClick={() => openConversation(conversation)}
+                      disabled={isLoading || isIndexing}
+                      className="min-w-0 flex-1 flex items-center gap-2 text-left"
+                    >
+                      <MessageSquare className="w-3.5 h-3.5 text-slate-400 shrink-0" />
+                      <span className="text-sm text-slate-700 truncate" title={conversation.title}>{conversation.title}</span>
+                    </button>
+                    <a
+                      href={`/api/conversations/${conversation.id}/export?format=markdown`}
+                      download
+                      title="Export as Markdown"
+                      className="text-slate-300 hover:text-indigo-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                    >
+                      <Download className="w-3.5 h-3.5" />
+                    </a>
+                    <button
+                      onClick={() => renameConversation(conversation)}
+                      title="Rename"
+                      className="text-slate-300 hover:text-indigo-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                    >
+                      <Pencil className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      onClick={() => deleteConversation(conversation)}
+                      title="Delete"
+                      className="text-slate-300 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
 
         <div className="p-4 border-t border-slate-100 text-xs text-slate-400 space-y-3">
@@ -262,8 +1295,17 @@ export default function App() {
           >
             <Settings className="w-4 h-4" /> Configurações
           </button>
+          <div className="flex items-center gap-2">
+            <div className="flex-1 min-w-0">
+              <p className="text-slate-600 font-medium truncate" title={session.user.email}>{session.user.email}</p>
+              <p className="truncate" title={session.workspace.name}>{session.workspace.name}</p>
+            </div>
+            <button onClick={onLogout} className="text-slate-400 hover:text-slate-700 transition-colors" title="Sign out">
+              <LogOut className="w-4 h-4" />
+            </button>
+          </div>
           <div className="pt-3 border-t border-slate-100 space-y-0.5 text-slate-300">
-            <p>Running on Ollama + {ollamaChatModel}</p>
+            <p>Running on {PROVIDERS[provider].label} + {chatModel}</p>
             <p>pgvector · Express · React</p>
           </div>
         </div>
@@ -271,7 +1313,7 @@ export default function App() {
 
       {/* Main area */}
       <main className="flex-1 flex flex-row overflow-hidden">
-        {!pdfFile ? (
+        {!hasWorkspace ? (
           <div className="flex flex-col items-center justify-center h-full p-8 w-full">
             <div
               className={`
@@ -293,6 +1335,9 @@ export default function App() {
                   {isIndexing ? 'Uploading & Indexing…' : 'Drop your PDF here'}
                 </p>
                 <p className="text-sm text-slate-400 mt-1">or click to browse · max 50 MB</p>
+                {documents.length > 0 && (
+                  <p className="text-xs text-slate-400 mt-2">…or select indexed documents in the sidebar to start chatting</p>
+                )}
               </div>
 
               {isIndexing && (
@@ -301,25 +1346,24 @@ export default function App() {
                 </div>
               )}
             </div>
-            <input
-              id="pdf-input"
-              type="file"
-              accept="application/pdf"
-              className="hidden"
-              onChange={handleFileUpload}
-              disabled={isIndexing}
-            />
           </div>
         ) : (
           <>
             {/* PDF Viewer */}
             <div className="flex-1 border-r border-slate-200 bg-slate-100/50 flex flex-col relative">
-              {pdfDataUri && (
-                <iframe
-                  src={`${pdfDataUri}#toolbar=0`}
-                  className="w-full h-full border-none"
-                  title="PDF Preview"
+              {previewSrc ? (
+                <PdfViewer
+                  url={previewSrc}
+                  documentId={pdfDataUri ? null : activeDocId}
+                  focus={previewTarget}
+                  highlights={highlights}
+                  activeChunkId={previewTarget?.chunkId ?? null}
+                  onExplain={selectedDocIds.length > 0 && !isIndexing && !isLoading ? explainSelection : undefined}
                 />
+              ) : (
+                <div className="flex items-center justify-center h-full text-sm text-slate-400">
+                  Select a document to preview it.
+                </div>
               )}
             </div>
 
@@ -333,14 +1377,88 @@ export default function App() {
                           d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                   </svg>
                 </div>
-                <div className="min-w-0">
-                  <p className="text-sm font-semibold text-slate-800 truncate">{pdfFile.name}</p>
-                  <p className="text-xs text-slate-400">Ask anything about this document</p>
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-semibold text-slate-800 truncate">
+                    {selectedDocs.length === 1
+                      ? selectedDocs[0].filename
+                      : selectedDocs.length > 1
+                        ? `${selectedDocs.length} documents`
+                        : uploadingFile?.name ?? indexingJob?.filename}
+                  </p>
+                  <p className="text-xs text-slate-400">
+                    {selectedDocs.length > 1 ? 'Ask anything across the selected documents' : 'Ask anything about this document'}
+                  </p>
                 </div>
+                <div className="flex rounded-lg bg-slate-100 p-0.5 text-xs shrink-0">
+                  <button
+                    onClick={() => setPanelMode('chat')}
+                    title="Chat"
+                    className={`flex items-center gap-1 px-2 py-1 rounded-md transition-colors ${panelMode === 'chat' ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-800'}`}
+                  >
+                    <MessageSquare className="w-3.5 h-3.5" /> Chat
+                  </button>
+                  <button
+                    onClick={() => setPanelMode('extract')}
+                    title="Extract fields with a JSON Schema"
+                    className={`flex items-center gap-1 px-2 py-1 rounded-md transition-colors ${panelMode === 'extract' ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-800'}`}
+                  >
+                    <Braces className="w-3.5 h-3.5" /> Extract
+                  </button>
+                </div>
+                {selectedDocs.length === 2 && (
+                  <button
+                    onClick={openComparison}
+                    title="Compare the two selected documents clause by clause"
+                    className="text-slate-400 hover:text-indigo-600 transition-colors"
+                  >
+                    <GitCompare className="w-4 h-4" />
+                  </button>
+                )}
+                {panelMode === 'chat' && (
+                  <button
+                    onClick={clearConversation}
+                    title="New conversation"
+                    className="text-slate-400 hover:text-red-400 transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+
+              {mismatchedDocs.length > 0 && retrievalMode !== 'keyword' && (
+                <div className="px-6 py-2 bg-amber-50 border-b border-amber-100 text-xs text-amber-800 shrink-0">
+                  {mismatchedDocs.map(d => `${d.filename} foi indexado com ${d.embeddingModel} (${PROVIDERS[d.embeddingProvider]?.label ?? d.embeddingProvider})`).join('; ')}.
+                  {' '}O modelo de embeddings atual é {embeddingModel} ({PROVIDERS[provider].label}), então a busca vetorial não encontra trechos desses documentos; troque o modelo ou reindexe.
+                </div>
+              )}
+
+              {/* Extraction */}
+              <div className={`flex-1 min-h-0 flex flex-col ${panelMode === 'extract' ? '' : 'hidden'}`}>
+                <ExtractionPanel
+                  request={{
+                    provider,
+                    baseUrl,
+                    apiKey,
+                    chatModel,
+                    embeddingModel,
+                    documentIds: selectedDocIds,
+                    sections: sectionFilter ? [sectionFilter] : [],
+                    pageRange: { from: pageFrom || null, to: pageTo || null },
+                    retrievalMode,
+                    hybridWeights: { vector: vectorWeight, keyword: keywordWeight },
+                    topK,
+                    minScore,
+                    reranker,
+                    rerankerUrl: reranker === 'cross-encoder' ? rerankerUrl : undefined,
+                  }}
+                  disabled={isIndexing || selectedDocIds.length === 0}
+                  showFilenames={selectedDocIds.length > 1}
+                  onOpenCitation={openSource}
+                />
               </div>
 
               {/* Message list */}
-              <div className="flex-1 overflow-y-auto px-4 py-6 space-y-4 bg-slate-50/50">
+              <div className={`flex-1 overflow-y-auto px-4 py-6 space-y-4 bg-slate-50/50 ${panelMode === 'chat' ? '' : 'hidden'}`}>
                 {messages.length === 0 && (
                   <div className="flex flex-col items-center justify-center h-full text-center text-slate-400 gap-2">
                     <svg className="w-10 h-10 opacity-30" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -351,7 +1469,7 @@ export default function App() {
                   </div>
                 )}
 
-                {messages.map((msg, idx) => (
+                {messages.filter(msg => msg.text || msg.steps?.length).map((msg, idx) => (
                   <div
                     key={idx}
                     className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
@@ -364,17 +1482,86 @@ export default function App() {
                       }`}
                     >
                       {msg.role === 'user' ? (
-                        <p className="whitespace-pre-wrap text-sm">{msg.text}</p>
+                        <>
+                          {msg.quote && (
+                            <p className="text-xs text-indigo-100 border-l-2 border-indigo-300 pl-2 mb-1.5 line-clamp-4 whitespace-pre-wrap">{msg.quote}</p>
+                          )}
+                          <p className="whitespace-pre-wrap text-sm">{msg.text}</p>
+                        </>
                       ) : (
-                        <div className="markdown-body text-sm leading-relaxed">
-                          <Markdown>{msg.text}</Markdown>
+                        <>
+                          {msg.steps && msg.steps.length > 0 && (
+                            <details open={msg.isStreaming} className={`text-xs text-slate-500 ${msg.text ? 'mb-2' : ''}`}>
+                              <summary className="cursor-pointer select-none">
+                                {msg.steps.length} {msg.steps.length === 1 ? 'consulta' : 'consultas'} do agente
+                              </summary>
+                              <ol className="mt-1.5 space-y-1 border-l-2 border-slate-100 pl-2">
+                                {msg.steps.map((step, i) => (
+                                  <li key={i} className="break-words">
+                                    <span className="font-mono text-slate-700">
+                                      {step.tool}({Object.values(step.arguments).map(value => JSON.stringify(value)).join(', ')})
+                                    </span>
+                                    {step.summary !== undefined
+                                      ? <span> → {step.summary}</span>
+                                      : <Loader2 className="inline w-3 h-3 ml-1 animate-spin" />}
+                                  </li>
+                                ))}
+                              </ol>
+                            </details>
+                          )}
+                          {msg.text && (
+                            <div className="markdown-body text-sm leading-relaxed">
+                              <Markdown>{msg.text}</Markdown>
+                            </div>
+                          )}
+                        </>
+                      )}
+                      {msg.sources && msg.sources.length > 0 && (
+                        <div className="flex flex-wrap gap-1.5 mt-3 pt-2.5 border-t border-slate-100">
+                          {msg.sources.map((source) => (
+                            <button
+                              key={source.chunkId}
+                              onClick={() => openSource(source, msg.sources!)}
+                              title={source.sectionPath ? `${source.sectionPath}\n\n${source.snippet}` : source.snippet}
+                              className="inline-flex items-center gap-1 text-xs px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-700 hover:bg-indigo-100 transition-colors max-w-full"
+                            >
+                              {source.chunkType === 'table'
+                                ? <Table className="w-3 h-3 shrink-0" />
+                                : <FileText className="w-3 h-3 shrink-0" />}
+                              <span className="truncate">
+                                {selectedDocIds.length > 1 ? `${source.filename} · ` : ''}p. {source.pageNumber}
+                                {source.endPageNumber !== source.pageNumber ? `–${source.endPageNumber}` : ''}
+                                {source.sectionPath ? ` · ${source.sectionPath.split(' > ').pop()}` : ''}
+                              </span>
+                              <span className="text-indigo-400">{Math.round(source.score * 100)}%</span>
+                            </button>
+                          ))}
                         </div>
                       )}
+                      {msg.suggestions && msg.suggestions.length > 0 && (
+                        <div className="flex flex-col items-start gap-1.5 mt-3">
+                          {msg.suggestions.map((question) => (
+                            <button
+                              key={question}
+                              onClick={() => sendMessage(question)}
+                              disabled={isLoading || isIndexing}
+                              className="text-left text-xs px-3 py-1.5 rounded-xl border border-indigo-200 text-indigo-700 hover:bg-indigo-50 disabled:opacity-40 transition-colors"
+                            >
+                              {question}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                      {msg.query && (
+                        <p className="text-xs text-slate-400 mt-2 truncate" title={msg.query}>
+                          Busca: {msg.query}
+                        </p>
+                      )}
                     </div>
                   </div>
                 ))}
 
-                {(isLoading || isIndexing) && (
+                {(isAwaitingFirstToken || isIndexing) && (
                   <div className="flex justify-start">
                     <div className="bg-white border border-slate-200 rounded-2xl px-5 py-4 shadow-sm flex items-center gap-3">
                       <Loader2 className="w-4 h-4 animate-spin text-indigo-600" />
@@ -389,28 +1576,126 @@ export default function App() {
 
               {/* Input area */}
               <div className="border-t border-slate-200 bg-white px-4 py-3 shrink-0">
-                <form onSubmit={handleSubmit} className="flex gap-2 items-end">
+                <div className={`flex gap-2 items-center text-xs text-slate-500 ${panelMode === 'chat' ? 'mb-2' : ''}`}>
+                  {sections.length > 0 && (
+                    <select
+                      value={sectionFilter}
+                      onChange={(e) => setSectionFilter(e.target.value)}
+                      title="Search only this section"
+                      className="flex-1 min-w-0 rounded-lg border border-slate-200 px-2 py-1 bg-white focus:outline-none focus:border-indigo-400"
+                    >
+                      <option value="">All sections</option>
+                      {sections.map((section, i) => (
+                        <option key={`${section.path}-${i}`} value={section.path}>
+                          {'\u00a0\u00a0'.repeat(section.level - 1)}{section.title}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  <span className="shrink-0">Pages</span>
                   <input
-                    type="text"
-                    value={input}
-                    onChange={(e) => setInput(e.target.value)}
-                    placeholder="Ask a question about the document…"
-                    disabled={isLoading || isIndexing}
-                    className="flex-1 rounded-xl border border-slate-300 px-4 py-2.5 text-sm text-slate-800 placeholder:text-slate-400 focus:outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-100 transition-all disabled:opacity-50 disabled:bg-slate-50"
+                    type="number"
+                    min={1}
+                    value={pageFrom}
+                    onChange={(e) => setPageFrom(e.target.value)}
+                    placeholder="from"
+                    className="w-16 rounded-lg border border-slate-200 px-2 py-1 focus:outline-none focus:border-indigo-400"
                   />
-                  <button
-                    type="submit"
-                    disabled={!input.trim() || isLoading || isIndexing}
-                    className="shrink-0 px-4 py-2.5 rounded-xl bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
-                  >
-                    Send
-                  </button>
-                </form>
-                <p className="text-xs text-slate-400 mt-1.5 ml-1">Enter to send</p>
+                  <input
+                    type="number"
+                    min={1}
+                    value={pageTo}
+                    onChange={(e) => setPageTo(e.target.value)}
+                    placeholder="to"
+                    className="w-16 rounded-lg border border-slate-200 px-2 py-1 focus:outline-none focus:border-indigo-400"
+                  />
+                  {panelMode === 'chat' && (
+                    <button
+                      type="button"
+                      onClick={() => setAgentMode(!agentMode)}
+                      disabled={provider !== 'ollama'}
+                      title={provider === 'ollama'
+                        ? 'Agent mode: the model searches, reads pages and sections over several steps before answering'
+                        : 'Agent mode needs Ollama tool calling'}
+                      className={`shrink-0 flex items-center gap-1 rounded-lg border px-2 py-1 transition-colors disabled:opacity-40 ${
+                        agentMode && provider === 'ollama'
+                          ? 'border-indigo-300 bg-indigo-50 text-indigo-700'
+                          : 'border-slate-200 hover:border-indigo-300'
+                      }`}
+                    >
+                      <Bot className="w-3.5 h-3.5" /> Agent
+                    </button>
+                  )}
+                  {panelMode === 'chat' && (
+                    <button
+                      type="button"
+                      onClick={() => setCompareMode(!compareMode)}
+                      disabled={selectedDocIds.length < 2}
+                      title={selectedDocIds.length > 1
+                        ? 'Compare mode: passages are retrieved from each selected document and the answer is labelled by document and page'
+                        : 'Select at least two documents to compare them'}
+                      className={`shrink-0 flex items-center gap-1 rounded-lg border px-2 py-1 transition-colors disabled:opacity-40 ${
+                        compareMode && selectedDocIds.length > 1
+                          ? 'border-indigo-300 bg-indigo-50 text-indigo-700'
+                          : 'border-slate-200 hover:border-indigo-300'
+                      }`}
+                    >
+                      <Scale className="w-3.5 h-3.5" /> Compare
+                    </button>
+                  )}
+                </div>
+                {panelMode === 'chat' && (
+                  <>
+                    <form onSubmit={handleSubmit} className="flex gap-2 items-end">
+                      <input
+                        type="text"
+                        value={input}
+                        onChange={(e) => setInput(e.target.value)}
+                        placeholder="Ask a question about the document…"
+                        disabled={isLoading || isIndexing}
+                        className="flex-1 rounded-xl border border-slate-300 px-4 py-2.5 text-sm text-slate-800 placeholder:text-slate-400 focus:outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-100 transition-all disabled:opacity-50 disabled:bg-slate-50"
+                      />
+                      {isLoading ? (
+                        <button
+                          type="button"
+                          onClick={stopGeneration}
+                          className="shrink-0 px-4 py-2.5 rounded-xl bg-slate-700 text-white text-sm font-medium hover:bg-slate-800 transition-colors flex items-center gap-1.5"
+                        >
+                          <Square className="w-3.5 h-3.5 fill-current" /> Stop
+                        </button>
+                      ) : (
+                        <button
+                          type="submit"
+                          disabled={!input.trim() || isIndexing || selectedDocIds.length === 0}
+                          className="shrink-0 px-4 py-2.5 rounded-xl bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                        >
+                          Send
+                        </button>
+                      )}
+                    </form>
+                    <p className="text-xs text-slate-400 mt-1.5 ml-1">Enter to send</p>
+                  </>
+                )}
               </div>
             </div>
           </>
         )}
+        <input
+          id="pdf-input"
+          type="file"
+          accept="application/pdf"
+          className="hidden"
+          onChange={handleFileUpload}
+          disabled={isIndexing}
+        />
+        <input
+          id="snapshot-input"
+          type="file"
+          accept=".jsonl,application/x-ndjson"
+          className="hidden"
+          onChange={handleSnapshotImport}
+          disabled={isIndexing}
+        />
       </main>
     </div>
   );
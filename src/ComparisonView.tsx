@@ -0,0 +1,201 @@
+import { useEffect, useState } from 'react';
+import { ArrowLeftRight, Loader2, X } from 'lucide-react';
+import { apiFetch } from './api.ts';
+
+type Clause = { number: string | null, text: string, page: number, section: string | null };
+
+type WordDiff = { type: 'equal' | 'added' | 'removed', text: string };
+
+type ClauseChange = {
+  type: 'added' | 'removed' | 'modified';
+  base: Clause | null;
+  other: Clause | null;
+  similarity?: number;
+  diff?: WordDiff[];
+};
+
+type DocumentComparison = {
+  base: { id: number, filename: string, pageCount: number | null };
+  other: { id: number, filename: string, pageCount: number | null };
+  summary: { unchanged: number, added: number, removed: number, modified: number };
+  sections: { title: string, basePage: number | null, otherPage: number | null, changes: number }[];
+  pages: { otherPage: number, basePage: number | null }[];
+  changes: ClauseChange[];
+  truncated: boolean;
+};
+
+const CHANGE_STYLES: Record<ClauseChange['type'], { label: string, badge: string }> = {
+  added: { label: 'Added', badge: 'bg-emerald-50 text-emerald-700' },
+  removed: { label: 'Removed', badge: 'bg-red-50 text-red-700' },
+  modified: { label: 'Modified', badge: 'bg-amber-50 text-amber-700' },
+};
+
+function DiffText({ diff }: { diff: WordDiff[] }) {
+  return (
+    <p className="whitespace-pre-wrap leading-relaxed">
+      {diff.map((part, i) => (
+        <span
+          key={i}
+          className={part.type === 'added' ? 'bg-emerald-100 text-emerald-900' : part.type === 'removed' ? 'bg-red-100 text-red-900 line-through' : ''}
+        >
+          {i > 0 ? ' ' : ''}{part.text}
+        </span>
+      ))}
+    </p>
+  );
+}
+
+// Version diff of two documents: clauses added, removed and modified from the base to the other
+// document, with the sections of both lined up. Page labels open the page in the viewer.
+export default function ComparisonView({ documentIds, onClose, onOpenPage }: {
+  // Base first
+  documentIds: [number, number];
+  onClose: () => void;
+  onOpenPage: (documentId: number, pageNumber: number) => void;
+}) {
+  const [[baseId, otherId], setOrder] = useState(documentIds);
+  const [comparison, setComparison] = useState<DocumentComparison | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setComparison(null);
+    setError(null);
+    apiFetch(`/api/documents/${baseId}/compare/${otherId}`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to compare documents');
+        if (!cancelled) setComparison(data);
+      })
+      .catch((error) => {
+        if (!cancelled) setError(error.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [baseId, otherId]);
+
+  const pageButton = (documentId: number, page: number) => (
+    <button
+      onClick={() => onOpenPage(documentId, page)}
+      className="px-1.5 py-0.5 rounded-full bg-indigo-50 text-indigo-700 hover:bg-indigo-100 transition-colors"
+    >
+      p. {page}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col relative">
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center gap-3 shrink-0">
+          <div className="min-w-0 flex-1">
+            <h2 className="text-lg font-semibold text-slate-800">Compare versions</h2>
+            {comparison && (
+              <p className="text-xs text-slate-500 truncate">
+                {comparison.base.filename} → {comparison.other.filename}
+              </p>
+            )}
+          </div>
+          <button
+            onClick={() => setOrder([otherId, baseId])}
+            title="Swap the base and the compared document"
+            className="flex items-center gap-1 rounded-lg border border-slate-200 px-2 py-1 text-xs text-slate-600 hover:border-indigo-300 transition-colors"
+          >
+            <ArrowLeftRight className="w-3.5 h-3.5" /> Swap
+          </button>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-5 text-sm">
+          {error && <p className="text-red-600">{error}</p>}
+          {!comparison && !error && (
+            <div className="flex items-center gap-2 text-slate-400">
+              <Loader2 className="w-4 h-4 animate-spin" /> Comparing…
+            </div>
+          )}
+
+          {comparison && (
+            <>
+              <div className="flex flex-wrap gap-2 text-xs">
+                <span className="px-2 py-1 rounded-lg bg-slate-100 text-slate-600">{comparison.summary.unchanged} unchanged</span>
+                <span className="px-2 py-1 rounded-lg bg-amber-50 text-amber-700">{comparison.summary.modified} modified</span>
+                <span className="px-2 py-1 rounded-lg bg-emerald-50 text-emerald-700">{comparison.summary.added} added</span>
+                <span className="px-2 py-1 rounded-lg bg-red-50 text-red-700">{comparison.summary.removed} removed</span>
+              </div>
+
+              {comparison.sections.length > 0 && (
+                <details className="border border-slate-200 rounded-xl">
+                  <summary className="px-3 py-2 text-xs font-medium text-slate-600 cursor-pointer">
+                    Sections ({comparison.sections.length})
+                  </summary>
+                  <table className="w-full text-xs">
+                    <thead className="bg-slate-50 text-slate-500 text-left">
+                      <tr>
+                        <th className="px-3 py-1.5 font-medium">Section</th>
+                        <th className="px-3 py-1.5 font-medium">{comparison.base.filename}</th>
+                        <th className="px-3 py-1.5 font-medium">{comparison.other.filename}</th>
+                        <th className="px-3 py-1.5 font-medium">Changes</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {comparison.sections.map((section) => (
+                        <tr key={section.title}>
+                          <td className="px-3 py-1.5 text-slate-700">{section.title}</td>
+                          <td className="px-3 py-1.5">{section.basePage !== null ? pageButton(comparison.base.id, section.basePage) : <span className="text-slate-400">missing</span>}</td>
+                          <td className="px-3 py-1.5">{section.otherPage !== null ? pageButton(comparison.other.id, section.otherPage) : <span className="text-slate-400">missing</span>}</td>
+                          <td className="px-3 py-1.5 text-slate-500">{section.changes}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </details>
+              )}
+
+              {comparison.changes.length === 0 && (
+                <p className="text-slate-500">No differences were found between the two documents.</p>
+              )}
+              <div className="space-y-3">
+                {comparison.changes.map((change, i) => {
+                  const clause = change.other ?? change.base!;
+                  return (
+                    <div key={i} className="border border-slate-200 rounded-xl p-3 space-y-2">
+                      <div className="flex flex-wrap items-center gap-2 text-xs">
+                        <span className={`px-2 py-0.5 rounded-full font-medium ${CHANGE_STYLES[change.type].badge}`}>
+                          {CHANGE_STYLES[change.type].label}
+                        </span>
+                        {clause.number && <span className="font-medium text-slate-700">{clause.number}</span>}
+                        {clause.section && <span className="text-slate-400 truncate">{clause.section}</span>}
+                        <span className="ml-auto flex items-center gap-1 text-slate-400">
+                          {change.base && <>{comparison.base.filename} {pageButton(comparison.base.id, change.base.page)}</>}
+                          {change.base && change.other && ' → '}
+                          {change.other && <>{comparison.other.filename} {pageButton(comparison.other.id, change.other.page)}</>}
+                        </span>
+                      </div>
+                      <div className="text-slate-700 text-xs">
+                        {change.type === 'modified' && change.diff ? (
+                          <DiffText diff={change.diff} />
+                        ) : change.type === 'modified' ? (
+                          <div className="grid grid-cols-2 gap-3">
+                            <p className="whitespace-pre-wrap bg-red-50 rounded-lg p-2">{change.base!.text}</p>
+                            <p className="whitespace-pre-wrap bg-emerald-50 rounded-lg p-2">{change.other!.text}</p>
+                          </div>
+                        ) : (
+                          <p className={`whitespace-pre-wrap ${change.type === 'removed' ? 'text-red-800 line-through' : 'text-emerald-800'}`}>{clause.text}</p>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+              {comparison.truncated && (
+                <p className="text-xs text-slate-400">Only the first {comparison.changes.length} changes are shown.</p>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import { useState } from 'react';
+import { Copy, FileText, Loader2, Table } from 'lucide-react';
+import { apiFetch } from './api.ts';
+import type { Highlight } from './PdfViewer.tsx';
+
+// Passage a value was read from, as cited by /api/extract
+type Citation = Highlight & {
+  filename: string;
+  chunkType: 'text' | 'table';
+  sectionPath: string | null;
+  snippet: string;
+};
+
+type ExtractedField = {
+  name: string;
+  value: unknown;
+  confidence: number;
+  citation: Citation | null;
+};
+
+type ExtractionResult = {
+  data: Record<string, unknown>;
+  fields: ExtractedField[];
+  missing: string[];
+  attempts: number;
+};
+
+const EXAMPLE_SCHEMA = `{
+  "type": "object",
+  "properties": {
+    "invoiceNumber": { "type": "string", "description": "Invoice number" },
+    "issueDate": { "type": "string", "format": "date", "description": "Date the invoice was issued" },
+    "total": { "type": "number", "description": "Total amount due" },
+    "parties": { "type": "array", "items": { "type": "string" }, "description": "Names of the parties" }
+  },
+  "required": ["invoiceNumber", "total"]
+}`;
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function confidenceColor(confidence: number): string {
+  if (confidence >= 0.8) return 'bg-emerald-500';
+  if (confidence >= 0.5) return 'bg-amber-400';
+  return 'bg-red-400';
+}
+
+// Extraction mode of the side panel: a JSON Schema editor and a table of the extracted fields,
+// each with the page it was found on and the model's confidence. `request` carries the provider,
+// model, document and retrieval settings the chat uses.
+export default function ExtractionPanel({ request, disabled, showFilenames, onOpenCitation }: {
+  request: Record<string, unknown>;
+  disabled: boolean;
+  showFilenames: boolean;
+  onOpenCitation: (citation: Citation, citations: Citation[]) => void;
+}) {
+  const [schemaText, setSchemaText] = useState(EXAMPLE_SCHEMA);
+  const [result, setResult] = useState<ExtractionResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isExtracting, setIsExtracting] = useState(false);
+
+  const extract = async () => {
+    let schema: unknown;
+    try {
+      schema = JSON.parse(schemaText);
+    } catch (error: any) {
+      setError(`The schema is not valid JSON: ${error.message}`);
+      return;
+    }
+    setError(null);
+    setIsExtracting(true);
+    try {
+      const response = await apiFetch('/api/extract', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...request, schema }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to extract data');
+      setResult(data);
+    } catch (error: any) {
+      setError(error.message);
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  const citations = result?.fields.flatMap(field => field.citation ? [field.citation] : []) ?? [];
+
+  return (
+    <div className="flex-1 overflow-y-auto px-4 py-4 space-y-4 bg-slate-50/50">
+      <div>
+        <label className="block text-xs font-medium text-slate-600 mb-1">JSON Schema of the fields to extract</label>
+        <textarea
+          value={schemaText}
+          onChange={(e) => setSchemaText(e.target.value)}
+          spellCheck={false}
+          rows={12}
+          className="w-full rounded-xl border border-slate-300 px-3 py-2 font-mono text-xs text-slate-800 bg-white focus:outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-100"
+        />
+        <div className="flex items-center gap-2 mt-2">
+          <button
+            onClick={extract}
+            disabled={disabled || isExtracting || !schemaText.trim()}
+            className="flex items-center gap-1.5 px-4 py-2 rounded-xl bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            {isExtracting && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+            Extract
+          </button>
+          <button
+            onClick={() => setSchemaText(EXAMPLE_SCHEMA)}
+            className="text-xs text-slate-500 hover:text-slate-800 transition-colors"
+          >
+            Reset to example
+          </button>
+        </div>
+        {error && <p className="text-xs text-red-600 mt-2 whitespace-pre-wrap">{error}</p>}
+      </div>
+
+      {result && (
+        <div className="bg-white border border-slate-200 rounded-xl overflow-hidden shadow-sm">
+          <table className="w-full text-xs">
+            <thead className="bg-slate-50 text-slate-500 text-left">
+              <tr>
+                <th className="px-3 py-2 font-medium">Field</th>
+                <th className="px-3 py-2 font-medium">Value</th>
+                <th className="px-3 py-2 font-medium">Source</th>
+                <th className="px-3 py-2 font-medium">Confidence</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {result.fields.map((field) => (
+                <tr key={field.name} className="align-top">
+                  <td className="px-3 py-2 font-medium text-slate-700 break-all">{field.name}</td>
+                  <td className={`px-3 py-2 break-words ${field.value === null ? 'text-slate-400 italic' : 'text-slate-800'}`}>
+                    {field.value === null ? 'not found' : formatValue(field.value)}
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    {field.citation ? (
+                      <button
+                        onClick={() => onOpenCitation(field.citation!, citations)}
+                        title={field.citation.snippet}
+                        className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-700 hover:bg-indigo-100 transition-colors"
+                      >
+                        {field.citation.chunkType === 'table' ? <Table className="w-3 h-3" /> : <FileText className="w-3 h-3" />}
+                        {showFilenames ? `${field.citation.filename} · ` : ''}p. {field.citation.pageNumber}
+                      </button>
+                    ) : '—'}
+                  </td>
+                  <td className="px-3 py-2">
+                    <div className="flex items-center gap-1.5" title={`${Math.round(field.confidence * 100)}%`}>
+                      <div className="w-12 h-1.5 rounded-full bg-slate-100 overflow-hidden">
+                        <div className={`h-full ${confidenceColor(field.confidence)}`} style={{ width: `${Math.round(field.confidence * 100)}%` }} />
+                      </div>
+                      <span className="text-slate-500">{Math.round(field.confidence * 100)}%</span>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="flex items-center justify-between px-3 py-2 border-t border-slate-100 text-xs text-slate-400">
+            <span>
+              {result.attempts === 0
+                ? 'Nothing relevant was found in the selected documents.'
+                : `Valid after ${result.attempts} ${result.attempts === 1 ? 'attempt' : 'attempts'}`}
+            </span>
+            <button
+              onClick={() => navigator.clipboard.writeText(JSON.stringify(result.data, null, 2))}
+              className="flex items-center gap-1 hover:text-slate-700 transition-colors"
+            >
+              <Copy className="w-3 h-3" /> Copy JSON
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useState, FormEvent } from 'react';
+import { Loader2 } from 'lucide-react';
+
+export type Session = {
+  user: { id: number, email: string };
+  workspace: { id: number, name: string };
+};
+
+// Sign-in and sign-up form. The server answers with the session and sets the session cookie.
+export default function LoginScreen({ onSignedIn }: { onSignedIn: (session: Session) => void }) {
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [workspaceName, setWorkspaceName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/auth/${mode}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(mode === 'register' ? { email, password, workspaceName } : { email, password }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to sign in');
+      onSignedIn({ user: data.user, workspace: data.workspace });
+    } catch (error: any) {
+      setError(error.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass = 'w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm';
+
+  return (
+    <div className="flex h-screen items-center justify-center bg-slate-50 font-sans p-4">
+      <form onSubmit={submit} className="bg-white rounded-2xl shadow-xl w-full max-w-sm p-6 space-y-4">
+        <div>
+          <h1 className="text-lg font-bold text-slate-900">PDF Agent</h1>
+          <p className="text-xs text-slate-400 mt-0.5">
+            {mode === 'login' ? 'Sign in to your workspace' : 'Create an account and a workspace for your documents'}
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Email</label>
+          <input type="email" required autoComplete="email" value={email} onChange={(e) => setEmail(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Password</label>
+          <input
+            type="password"
+            required
+            minLength={mode === 'register' ? 8 : undefined}
+            autoComplete={mode === 'register' ? 'new-password' : 'current-password'}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+        {mode === 'register' && (
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Workspace name</label>
+            <input type="text" value={workspaceName} onChange={(e) => setWorkspaceName(e.target.value)} placeholder="Optional" className={inputClass} />
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-60 text-white text-sm font-medium rounded-lg py-2.5 transition-colors"
+        >
+          {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+          {mode === 'login' ? 'Sign in' : 'Create account'}
+        </button>
+        <button
+          type="button"
+          onClick={() => { setMode(mode === 'login' ? 'register' : 'login'); setError(null); }}
+          className="w-full text-xs text-slate-500 hover:text-slate-800 transition-colors"
+        >
+          {mode === 'login' ? 'No account yet? Create one' : 'Already have an account? Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+// An installed Ollama model, as listed by /api/models/ollama
+export type OllamaModel = {
+  name: string;
+  size: number;
+  family: string | null;
+  parameterSize: string | null;
+  quantization: string | null;
+};
+
+// Details of a model from /api/models/ollama/show
+export type OllamaModelDetails = OllamaModel & {
+  capabilities: string[];
+  contextLength: number | null;
+  embeddingLength: number | null;
+};
+
+const inputClass = 'w-full p-2.5 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none text-sm';
+
+function formatSize(bytes: number): string {
+  return bytes >= 1e9 ? `${(bytes / 1e9).toFixed(1)} GB` : `${Math.round(bytes / 1e6)} MB`;
+}
+
+// Model field of the settings: a dropdown of the installed models when the list is available,
+// otherwise free text. A configured model that is not installed stays selectable, marked as such.
+export default function ModelSelect({ value, onChange, models, placeholder }: {
+  value: string;
+  onChange: (value: string) => void;
+  models: OllamaModel[] | null;
+  placeholder: string;
+}) {
+  if (!models || models.length === 0) {
+    return (
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        className={inputClass}
+      />
+    );
+  }
+
+  const installed = models.some(m => m.name === value);
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+      {!installed && <option value={value}>{value || placeholder} (não instalado)</option>}
+      {models.map((model) => (
+        <option key={model.name} value={model.name}>
+          {model.name}{model.parameterSize ? ` · ${model.parameterSize}` : ''}{model.size ? ` · ${formatSize(model.size)}` : ''}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,338 @@
+import { useEffect, useRef, useState, type KeyboardEvent } from 'react';
+import { ChevronLeft, ChevronRight, Loader2, MessageSquareQuote, ZoomIn, ZoomOut } from 'lucide-react';
+import { getDocument, GlobalWorkerOptions, TextLayer, type PDFDocumentProxy, type RenderTask } from 'pdfjs-dist';
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { apiFetch } from './api.ts';
+
+GlobalWorkerOptions.workerSrc = workerUrl;
+
+// Span of a retrieved chunk: from startOffset on its first page to endOffset on its last, as
+// character offsets into the page text the server extracted. Tables have no offsets.
+export type Highlight = {
+  chunkId: number;
+  documentId: number;
+  pageNumber: number;
+  endPageNumber: number;
+  startOffset: number | null;
+  endOffset: number | null;
+};
+
+// Passage selected in the viewer
+export type ViewerSelection = { text: string, pageNumber: number };
+
+const ZOOM_STEPS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+const DEFAULT_ZOOM = 2;
+// Characters compared at each end of a passage that does not match the text layer as a whole
+const ANCHOR_LENGTH = 40;
+
+type RenderedLayer = { pageNumber: number, divs: HTMLElement[], runs: string[] };
+
+// Helper: Locate a passage among the text runs of the text layer. The server and the text layer
+// split and space the text differently, so both are compared without whitespace and case.
+// Returns the character range covered in each run, or null when the passage is not found.
+function locatePassage(runs: string[], passage: string): Map<number, [number, number]> | null {
+  const positions: { run: number, offset: number }[] = [];
+  let flat = '';
+  runs.forEach((run, i) => {
+    for (let j = 0; j < run.length; j++) {
+      if (/\s/.test(run[j])) continue;
+      const lower = run[j].toLowerCase();
+      flat += lower.length === 1 ? lower : run[j];
+      positions.push({ run: i, offset: j });
+    }
+  });
+  const target = [...passage.replace(/\s+/g, '')].map(c => c.toLowerCase().length === 1 ? c.toLowerCase() : c).join('');
+  if (!target) return null;
+
+  let start = flat.indexOf(target);
+  let end = start + target.length;
+  if (start < 0) {
+    // Fall back to the ends of the passage, which still frame it when the middle differs
+    const head = target.slice(0, ANCHOR_LENGTH);
+    const tail = target.slice(-ANCHOR_LENGTH);
+    start = flat.indexOf(head);
+    const tailAt = start < 0 ? -1 : flat.indexOf(tail, start);
+    if (tailAt < 0) return null;
+    end = tailAt + tail.length;
+  }
+
+  const ranges = new Map<number, [number, number]>();
+  for (let k = start; k < end; k++) {
+    const { run, offset } = positions[k];
+    const range = ranges.get(run);
+    if (range) range[1] = offset + 1;
+    else ranges.set(run, [offset, offset + 1]);
+  }
+  return ranges;
+}
+
+// Helper: Rewrite the text runs with highlight spans over the marked characters (1 = cited,
+// 2 = the source that was opened); unmarked runs get their plain text back
+function paintHighlights(layer: RenderedLayer, marks: Map<number, Uint8Array>) {
+  layer.divs.forEach((div, i) => {
+    const text = layer.runs[i];
+    const levels = marks.get(i);
+    if (!levels) {
+      if (div.childElementCount > 0) div.textContent = text;
+      return;
+    }
+    div.replaceChildren();
+    let from = 0;
+    for (let k = 1; k <= text.length; k++) {
+      if (k < text.length && levels[k] === levels[from]) continue;
+      const part = text.slice(from, k);
+      if (levels[from] === 0) {
+        div.append(part);
+      } else {
+        const span = document.createElement('span');
+        span.className = levels[from] === 2 ? 'highlight active' : 'highlight';
+        span.textContent = part;
+        div.append(span);
+      }
+      from = k;
+    }
+  });
+}
+
+// PDF preview rendered with pdf.js: a page at a time with a selectable text layer, page
+// navigation and zoom. The cited passages of the current answer are highlighted, and a text
+// selection can be sent to the chat with "Explain this".
+export default function PdfViewer({ url, documentId, focus, highlights, activeChunkId, onExplain }: {
+  url: string;
+  // Indexed document shown, whose page texts the highlight offsets refer to; null while uploading
+  documentId: number | null;
+  // Page to show; a new object navigates again, even to the same page
+  focus: { pageNumber: number } | null;
+  highlights: Highlight[];
+  activeChunkId: number | null;
+  onExplain?: (selection: ViewerSelection) => void;
+}) {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [pageInput, setPageInput] = useState('1');
+  const [zoom, setZoom] = useState(DEFAULT_ZOOM);
+  const [layer, setLayer] = useState<RenderedLayer | null>(null);
+  const [selection, setSelection] = useState<{ text: string, x: number, y: number } | null>(null);
+  const pageRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+  const pageTexts = useRef(new Map<string, Promise<string | null>>());
+
+  const pageCount = pdf?.numPages ?? 0;
+  const scale = ZOOM_STEPS[zoom];
+
+  useEffect(() => {
+    let cancelled = false;
+    setPdf(null);
+    setError(null);
+    setPageNumber(1);
+    const task = getDocument(url);
+    task.promise.then(
+      (loaded) => {
+        if (cancelled) return;
+        setPdf(loaded);
+        setPageNumber(page => Math.min(page, loaded.numPages));
+      },
+      (error) => {
+        if (!cancelled) setError(error.message || 'Failed to load the PDF');
+      }
+    );
+    return () => {
+      cancelled = true;
+      task.destroy();
+    };
+  }, [url]);
+
+  useEffect(() => {
+    if (focus) setPageNumber(focus.pageNumber);
+  }, [focus]);
+
+  useEffect(() => {
+    setPageInput(String(pageNumber));
+    setSelection(null);
+  }, [pageNumber]);
+
+  // Render the page to the canvas and lay its text over it
+  useEffect(() => {
+    if (!pdf || pageNumber > pdf.numPages) return;
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+    let textLayer: TextLayer | null = null;
+    setLayer(null);
+
+    (async () => {
+      const page = await pdf.getPage(pageNumber);
+      const canvas = canvasRef.current;
+      const container = textLayerRef.current;
+      const wrapper = pageRef.current;
+      if (cancelled || !canvas || !container || !wrapper) return;
+
+      const viewport = page.getViewport({ scale });
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = Math.floor(viewport.width * ratio);
+      canvas.height = Math.floor(viewport.height * ratio);
+      wrapper.style.width = `${Math.floor(viewport.width)}px`;
+      wrapper.style.height = `${Math.floor(viewport.height)}px`;
+      wrapper.style.setProperty('--scale-factor', String(viewport.scale));
+
+      renderTask = page.render({ canvas, viewport, transform: ratio !== 1 ? [ratio, 0, 0, ratio, 0, 0] : undefined });
+      container.replaceChildren();
+      textLayer = new TextLayer({ textContentSource: page.streamTextContent(), container, viewport });
+      await Promise.all([renderTask.promise, textLayer.render()]);
+      if (!cancelled) setLayer({ pageNumber, divs: textLayer.textDivs, runs: textLayer.textContentItemsStr });
+    })().catch((error) => {
+      if (!cancelled && error?.name !== 'RenderingCancelledException') setError(error.message || 'Failed to render the page');
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+      textLayer?.cancel();
+    };
+  }, [pdf, pageNumber, scale]);
+
+  // Text of a page as the server extracted it, which the chunk offsets refer to
+  const loadPageText = (docId: number, page: number): Promise<string | null> => {
+    const key = `${docId}:${page}`;
+    let text = pageTexts.current.get(key);
+    if (!text) {
+      text = apiFetch(`/api/documents/${docId}/pages/${page}`)
+        .then(response => response.ok ? response.json() : null)
+        .then(data => data?.text ?? null)
+        .catch(() => null);
+      pageTexts.current.set(key, text);
+    }
+    return text;
+  };
+
+  // Highlight the cited passages on the rendered page
+  useEffect(() => {
+    if (!layer) return;
+    const onPage = documentId === null ? [] : highlights.filter(h =>
+      h.documentId === documentId && h.startOffset !== null && h.endOffset !== null &&
+      h.pageNumber <= layer.pageNumber && layer.pageNumber <= h.endPageNumber
+    );
+    if (onPage.length === 0) {
+      paintHighlights(layer, new Map());
+      return;
+    }
+
+    let cancelled = false;
+    loadPageText(documentId!, layer.pageNumber).then((text) => {
+      if (cancelled || text === null) return;
+      const marks = new Map<number, Uint8Array>();
+      for (const highlight of onPage) {
+        const from = highlight.pageNumber === layer.pageNumber ? highlight.startOffset! : 0;
+        const to = highlight.endPageNumber === layer.pageNumber ? highlight.endOffset! : text.length;
+        const ranges = locatePassage(layer.runs, text.slice(from, to));
+        if (!ranges) continue;
+        const level = highlight.chunkId === activeChunkId ? 2 : 1;
+        for (const [run, [start, end]] of ranges) {
+          const levels = marks.get(run) ?? new Uint8Array(layer.runs[run].length);
+          for (let k = start; k < end; k++) levels[k] = Math.max(levels[k], level);
+          marks.set(run, levels);
+        }
+      }
+      paintHighlights(layer, marks);
+      textLayerRef.current?.querySelector('.highlight.active')?.scrollIntoView({ block: 'center' });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [layer, highlights, activeChunkId, documentId]);
+
+  const goToPage = (page: number) => {
+    if (!Number.isInteger(page) || page < 1 || page > pageCount) {
+      setPageInput(String(pageNumber));
+      return;
+    }
+    setPageNumber(page);
+  };
+
+  const handlePageKey = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') goToPage(Number(pageInput));
+  };
+
+  // Offer "Explain this" under a selection made in the text layer
+  const handleMouseUp = () => {
+    const selected = window.getSelection();
+    const text = selected?.toString().trim();
+    const wrapper = pageRef.current;
+    if (!onExplain || !selected || !text || selected.rangeCount === 0 || !wrapper || !textLayerRef.current?.contains(selected.anchorNode)) {
+      setSelection(null);
+      return;
+    }
+    const rect = selected.getRangeAt(0).getBoundingClientRect();
+    const box = wrapper.getBoundingClientRect();
+    setSelection({ text, x: rect.left - box.left + rect.width / 2, y: rect.bottom - box.top });
+  };
+
+  const explainSelection = () => {
+    if (!selection || !onExplain) return;
+    onExplain({ text: selection.text, pageNumber });
+    window.getSelection()?.removeAllRanges();
+    setSelection(null);
+  };
+
+  const toolbarButton = 'p-1.5 rounded-md text-slate-500 hover:bg-slate-200 hover:text-slate-800 disabled:opacity-30 disabled:hover:bg-transparent transition-colors';
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <div className="flex items-center justify-center gap-1 px-3 py-1.5 border-b border-slate-200 bg-white text-xs text-slate-600 shrink-0">
+        <button onClick={() => goToPage(pageNumber - 1)} disabled={!pdf || pageNumber <= 1} title="Previous page" className={toolbarButton}>
+          <ChevronLeft className="w-4 h-4" />
+        </button>
+        <input
+          type="text"
+          inputMode="numeric"
+          value={pageInput}
+          onChange={(e) => setPageInput(e.target.value)}
+          onKeyDown={handlePageKey}
+          onBlur={() => goToPage(Number(pageInput))}
+          disabled={!pdf}
+          aria-label="Page"
+          className="w-10 text-center rounded-md border border-slate-200 py-0.5 focus:outline-none focus:border-indigo-400"
+        />
+        <span className="text-slate-400">/ {pageCount || '–'}</span>
+        <button onClick={() => goToPage(pageNumber + 1)} disabled={!pdf || pageNumber >= pageCount} title="Next page" className={toolbarButton}>
+          <ChevronRight className="w-4 h-4" />
+        </button>
+        <span className="w-px h-4 bg-slate-200 mx-2" />
+        <button onClick={() => setZoom(z => z - 1)} disabled={zoom === 0} title="Zoom out" className={toolbarButton}>
+          <ZoomOut className="w-4 h-4" />
+        </button>
+        <button onClick={() => setZoom(DEFAULT_ZOOM)} title="Reset zoom" className="w-12 text-center hover:text-slate-900">
+          {Math.round(scale * 100)}%
+        </button>
+        <button onClick={() => setZoom(z => z + 1)} disabled={zoom === ZOOM_STEPS.length - 1} title="Zoom in" className={toolbarButton}>
+          <ZoomIn className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-auto" onMouseUp={handleMouseUp}>
+        {error ? (
+          <div className="flex items-center justify-center h-full text-sm text-red-500 px-6 text-center">{error}</div>
+        ) : (
+          <div className="min-w-fit p-4 flex justify-center">
+            {!pdf && <Loader2 className="w-6 h-6 mt-12 animate-spin text-slate-400" />}
+            <div ref={pageRef} className={`pdfPage relative bg-white shadow-md ${pdf ? '' : 'hidden'}`}>
+              <canvas ref={canvasRef} className="block w-full h-full" />
+              <div ref={textLayerRef} className="textLayer" />
+              {selection && (
+                <button
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={explainSelection}
+                  style={{ left: selection.x, top: selection.y + 6 }}
+                  className="absolute z-10 -translate-x-1/2 flex items-center gap-1.5 px-2.5 py-1 rounded-lg bg-slate-800 text-white text-xs font-medium shadow-lg hover:bg-slate-900 whitespace-nowrap"
+                >
+                  <MessageSquareQuote className="w-3.5 h-3.5" /> Explain this
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+// fetch for API routes. The session cookie authenticates the request; a 401 means the session
+// expired or was revoked, so the app goes back to the sign-in screen.
+export async function apiFetch(input: string, init?: RequestInit): Promise<Response> {
+  const response = await fetch(input, init);
+  if (response.status === 401) window.dispatchEvent(new Event('session-expired'));
+  return response;
+}